@@ -0,0 +1,54 @@
+import { Service } from 'basketry';
+
+import { SorbetHttpClientOptions } from './types';
+
+/** Builds the path prefix of every operation from the `basePath` option */
+export function buildBasePath(
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string {
+  const template = options?.sorbetHttpClient?.basePath ?? '/v{majorVersion}';
+  const path = template
+    .replace(/\{majorVersion\}/g, `${service.majorVersion.value}`)
+    .replace(/\/+$/, '');
+
+  return path && !path.startsWith('/') ? `/${path}` : path;
+}
+
+/**
+ * Builds the Ruby expression for the retry policy that clients use when none
+ * is passed to them, or `nil` when the `retry` option is not set.
+ */
+export function buildDefaultRetryPolicy(
+  options?: SorbetHttpClientOptions,
+): string {
+  const retry = options?.sorbetHttpClient?.retry;
+  if (!retry) return 'nil';
+
+  const args: string[] = [];
+  if (retry.maxAttempts !== undefined) {
+    args.push(`max_attempts: ${retry.maxAttempts}`);
+  }
+  if (retry.baseDelay !== undefined) {
+    args.push(`base_delay: ${toFloat(retry.baseDelay)}`);
+  }
+  if (retry.maxDelay !== undefined) {
+    args.push(`max_delay: ${toFloat(retry.maxDelay)}`);
+  }
+  if (retry.statusCodes) {
+    args.push(`status_codes: [${retry.statusCodes.join(', ')}]`);
+  }
+  if (retry.verbs) {
+    args.push(
+      `verbs: %w[${retry.verbs.map((verb) => verb.toUpperCase()).join(' ')}]`,
+    );
+  }
+
+  return args.length
+    ? `RetryPolicy.new(${args.join(', ')})`
+    : 'RetryPolicy.new';
+}
+
+function toFloat(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : `${value}`;
+}
@@ -0,0 +1,1028 @@
+import {
+  HttpParameter,
+  isBasicScheme,
+  isOAuth2Scheme,
+  SecurityScheme,
+  Service,
+} from 'basketry';
+
+import { snake } from 'case';
+
+import { buildBasePath, buildDefaultRetryPolicy } from './defaults';
+import { getPagination } from './pagination';
+import { SorbetHttpClientOptions } from './types';
+import { block, indent, rubyString } from './utils';
+
+/**
+ * Builds the support code (credentials, errors, etc) that is emitted at the
+ * top of the HttpClientHelpers module. Each item is separated by a blank line.
+ */
+export function buildHelpers(
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): Iterable<Iterable<string>> {
+  return new Builder(service, options).build();
+}
+
+const statusErrors: [number, string][] = [
+  [400, 'BadRequestError'],
+  [401, 'UnauthorizedError'],
+  [403, 'ForbiddenError'],
+  [404, 'NotFoundError'],
+  [409, 'ConflictError'],
+  [422, 'UnprocessableEntityError'],
+  [429, 'TooManyRequestsError'],
+  [500, 'InternalServerError'],
+  [502, 'BadGatewayError'],
+  [503, 'ServiceUnavailableError'],
+  [504, 'GatewayTimeoutError'],
+];
+
+class Builder {
+  constructor(
+    private readonly service: Service,
+    private readonly options?: SorbetHttpClientOptions,
+  ) {}
+
+  *build(): Iterable<Iterable<string>> {
+    yield* this.buildAuthHelpers();
+    yield* this.buildEncoders();
+    yield* this.buildDecoders();
+    yield* this.buildPaginationHelpers();
+    yield* this.buildErrors();
+    yield* this.buildMappingHelpers();
+    yield* this.buildValidationErrors();
+    yield* this.buildResponse();
+    yield* this.buildFuture();
+    yield* this.buildRequestOptions();
+    yield* this.buildInstrumentation();
+    yield* this.buildTransport();
+    yield* this.buildRetryPolicy();
+    yield* this.buildPipeline();
+    yield* this.buildClientConfig();
+  }
+
+  private get schemes(): SecurityScheme[] {
+    return this.service.interfaces.flatMap((int) =>
+      int.methods.flatMap((method) =>
+        method.security.flatMap((option) => option),
+      ),
+    );
+  }
+
+  private hasParamsIn(location: HttpParameter['in']['value']): boolean {
+    return this.service.interfaces.some((int) =>
+      int.protocols.http.some((path) =>
+        path.methods.some((method) =>
+          method.parameters.some((param) => param.in.value === location),
+        ),
+      ),
+    );
+  }
+
+  private *buildAuthHelpers(): Iterable<Iterable<string>> {
+    if (this.schemes.some(isBasicScheme)) {
+      yield block('class BasicCredentials < T::Struct', [
+        'const :username, String',
+        'const :password, String',
+      ]);
+      yield (function* () {
+        yield 'sig { params(credentials: BasicCredentials).returns(String) }';
+        yield* block('def basic_authorization(credentials)', [
+          `"Basic #{["#{credentials.username}:#{credentials.password}"].pack('m0')}"`,
+        ]);
+      })();
+    }
+
+    if (this.schemes.some(isOAuth2Scheme)) {
+      yield [
+        '# A static access token or a callable that returns a current access token',
+        'OAuth2Token = T.type_alias { T.any(String, T.proc.returns(String)) }',
+      ];
+      yield (function* () {
+        yield 'sig { params(token: OAuth2Token).returns(String) }';
+        yield* block('def bearer_authorization(token)', [
+          `"Bearer #{token.is_a?(String) ? token : token.call}"`,
+        ]);
+      })();
+    }
+  }
+
+  private *buildEncoders(): Iterable<Iterable<string>> {
+    if (this.hasParamsIn('path')) {
+      yield (function* () {
+        yield 'sig { params(value: Object).returns(String) }';
+        yield* block('def encode_path_segment(value)', [
+          "URI.encode_www_form_component(value.to_s).gsub('+', '%20')",
+        ]);
+      })();
+    }
+
+    if (this.hasParamsIn('formData')) {
+      yield (function* () {
+        yield '# Writes form fields as multipart/form-data when any value is a file (or';
+        yield '# other IO) and as application/x-www-form-urlencoded otherwise';
+        yield 'sig { params(req: Net::HTTPRequest, fields: T::Hash[Symbol, T.untyped]).void }';
+        yield* block('def write_form_body(req, fields)', function* () {
+          yield 'if fields.values.any? { |value| value.respond_to?(:read) }';
+          yield* indent(function* () {
+            yield* block(
+              'parts = fields.flat_map do |name, value|',
+              'value.is_a?(Array) ? value.map { |item| [name.to_s, item] } : [[name.to_s, value]]',
+            );
+            yield "req.set_form(parts, 'multipart/form-data')";
+          });
+          yield 'else';
+          yield* indent('req.set_form_data(fields)');
+          yield 'end';
+        });
+      })();
+    }
+  }
+
+  private get hasReturnTypes(): boolean {
+    return this.service.interfaces.some((int) =>
+      int.methods.some((method) => method.returnType),
+    );
+  }
+
+  private *buildDecoders(): Iterable<Iterable<string>> {
+    if (!this.hasReturnTypes) return;
+
+    yield (function* () {
+      yield '# Parses the body of a JSON response. Returns nil when the response has no';
+      yield '# content and the raw body when its content type is not JSON.';
+      yield 'sig { params(res: Net::HTTPResponse).returns(T.untyped) }';
+      yield* block('def read_body(res)', function* () {
+        yield 'body = res.body';
+        yield 'return if body.nil? || body.empty?';
+        yield '';
+        yield 'content_type = res.content_type';
+        yield 'return body unless content_type.nil? || content_type.match?(%r{\\Aapplication/(.+\\+)?json\\z}i)';
+        yield '';
+        yield 'JSON.parse(body)';
+      });
+    })();
+
+    yield (function* () {
+      yield '# Reads the body of a successful response that is mapped to the return type of';
+      yield '# a method. Raises an UnexpectedBodyError when the body is empty, is not valid';
+      yield '# JSON or is not one of the expected JSON types (eg. an HTML page).';
+      yield 'sig { params(res: Net::HTTPResponse, json_types: Module).returns(T.untyped) }';
+      yield 'def read_body_as(res, *json_types)';
+      yield* indent(function* () {
+        yield 'body = read_body(res)';
+        yield 'return body if json_types.any? { |json_type| body.is_a?(json_type) }';
+        yield '';
+        yield* unexpectedBody(
+          "Expected a response body of type #{json_types.join(' or ')} but got #{body.nil? ? 'an empty body' : body.class}",
+        );
+      });
+      yield 'rescue JSON::ParserError => e';
+      yield* indent(
+        unexpectedBody(
+          "Expected a response body of type #{json_types.join(' or ')} but got invalid JSON: #{e.message}",
+        ),
+      );
+      yield 'end';
+    })();
+  }
+
+  private *buildPaginationHelpers(): Iterable<Iterable<string>> {
+    const usesLinks = this.service.interfaces.some((int) =>
+      int.methods.some(
+        (method) =>
+          getPagination(this.service, method, this.options)?.strategy ===
+          'link',
+      ),
+    );
+
+    if (usesLinks) {
+      yield (function* () {
+        yield '# Reads a query parameter from the `rel="next"` URL of a Link response header';
+        yield 'sig { params(headers: T::Hash[String, T::Array[String]], name: String).returns(T.nilable(String)) }';
+        yield* block('def next_link_param(headers, name)', function* () {
+          yield "links = headers.fetch('link', []).join(',')";
+          yield 'match = links.match(/<([^>]*)>[^,]*;\\s*rel="?next"?/)';
+          yield 'return nil unless match';
+          yield '';
+          yield 'query = URI(T.must(match[1])).query';
+          yield 'return nil unless query';
+          yield '';
+          yield 'URI.decode_www_form(query).to_h[name]';
+        });
+      })();
+    }
+  }
+
+  private *buildErrors(): Iterable<Iterable<string>> {
+    yield (function* () {
+      yield '# Raised when a response does not have a successful (2xx) status code';
+      yield* block('class HttpClientError < StandardError', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'sig { returns(Integer) }';
+        yield 'attr_reader :status';
+        yield '';
+        yield 'sig { returns(T::Hash[String, T::Array[String]]) }';
+        yield 'attr_reader :headers';
+        yield '';
+        yield 'sig { returns(T.nilable(String)) }';
+        yield 'attr_reader :body';
+        yield '';
+        yield '# The parsed JSON body of the response, if any';
+        yield 'sig { returns(T.untyped) }';
+        yield 'attr_reader :error';
+        yield '';
+        yield 'sig { params(status: Integer, headers: T::Hash[String, T::Array[String]], body: T.nilable(String), error: T.untyped, message: String).void }';
+        yield* block(
+          'def initialize(status:, headers:, body:, error: nil, message: "HTTP request failed with status #{status}")',
+          [
+            'super(message)',
+            '@status = status',
+            '@headers = headers',
+            '@body = body',
+            '@error = error',
+          ],
+        );
+        yield '';
+        yield 'sig { params(res: Net::HTTPResponse).returns(HttpClientError) }';
+        yield* block('def self.from_response(res)', function* () {
+          yield 'status = Integer(res.code, 10)';
+          yield* block(
+            'error_class = STATUS_ERRORS.fetch(status) do',
+            function* () {
+              yield 'if status >= 500';
+              yield* indent('ServerError');
+              yield 'elsif status >= 400';
+              yield* indent('ClientError');
+              yield 'else';
+              yield* indent('HttpClientError');
+              yield 'end';
+            },
+          );
+          yield 'error_class.new(status: status, headers: res.to_hash, body: res.body, error: parse_error(res.body))';
+        });
+        yield '';
+        yield 'sig { params(body: T.nilable(String)).returns(T.untyped) }';
+        yield 'def self.parse_error(body)';
+        yield* indent('JSON.parse(body) if !body.nil? && !body.empty?');
+        yield 'rescue JSON::ParserError';
+        yield* indent('nil');
+        yield 'end';
+        yield 'private_class_method :parse_error';
+      });
+    })();
+
+    yield [
+      '# Raised when a response has a client error (4xx) status code',
+      'class ClientError < HttpClientError; end',
+      '',
+      '# Raised when a response has a server error (5xx) status code',
+      'class ServerError < HttpClientError; end',
+    ];
+
+    if (this.hasReturnTypes) {
+      yield [
+        '# Raised when a successful response does not have a body that can be mapped to',
+        '# the return type of the method',
+        'class UnexpectedBodyError < HttpClientError; end',
+      ];
+    }
+
+    yield statusErrors.map(
+      ([status, name]) =>
+        `class ${name} < ${status >= 500 ? 'ServerError' : 'ClientError'}; end`,
+    );
+
+    yield (function* () {
+      yield 'STATUS_ERRORS = T.let(';
+      yield* indent(function* () {
+        yield '{';
+        yield* indent(
+          statusErrors.map(([status, name]) => `${status} => ${name},`),
+        );
+        yield '}.freeze,';
+        yield 'T::Hash[Integer, T.class_of(HttpClientError)]';
+      });
+      yield ')';
+    })();
+  }
+
+  private *buildMappingHelpers(): Iterable<Iterable<string>> {
+    if (!this.options?.sorbetHttpClient?.strictMapping) return;
+
+    yield (function* () {
+      yield '# Raised when a response body does not match the type it is mapped to';
+      yield* block('class MappingError < StandardError', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield '# The Sorbet type that the value could not be mapped to';
+        yield 'sig { returns(String) }';
+        yield 'attr_reader :type_name';
+        yield '';
+        yield '# The JSON path of the value (eg. `$.data[0].size`)';
+        yield 'sig { returns(String) }';
+        yield 'attr_reader :path';
+        yield '';
+        yield 'sig { returns(T.untyped) }';
+        yield 'attr_reader :value';
+        yield '';
+        yield 'sig { params(type_name: String, path: String, value: T.untyped).void }';
+        yield* block('def initialize(type_name:, path:, value:)', [
+          'super("Could not map #{value.inspect} at #{path} to #{type_name}")',
+          '@type_name = type_name',
+          '@path = path',
+          '@value = value',
+        ]);
+      });
+    })();
+
+    yield (function* () {
+      yield '# Maps a property of a DTO with the block. Raises a MappingError when a';
+      yield '# required property is missing or when the block fails.';
+      yield* block('sig do', function* () {
+        yield 'params(';
+        yield* indent([
+          'dto: T::Hash[String, T.untyped],',
+          'name: String,',
+          'path: String,',
+          'type_name: String,',
+          'required: T::Boolean,',
+          'blk: T.proc.params(value: T.untyped, path: String).returns(T.untyped)',
+        ]);
+        yield ').returns(T.untyped)';
+      });
+      yield* block(
+        'def map_property(dto, name, path, type_name, required: false, &blk)',
+        function* () {
+          yield 'value = dto[name]';
+          yield 'property_path = "#{path}.#{name}"';
+          yield* block('if value.nil?', [
+            'raise MappingError.new(type_name: type_name, path: property_path, value: value) if required',
+            '',
+            'return',
+          ]);
+          yield '';
+          yield 'map_value(value, property_path, type_name, &blk)';
+        },
+      );
+    })();
+
+    yield (function* () {
+      yield '# Maps each item of an array with the block';
+      yield* block('sig do', function* () {
+        yield 'params(';
+        yield* indent([
+          'value: T.untyped,',
+          'path: String,',
+          'type_name: String,',
+          'blk: T.proc.params(item: T.untyped, path: String).returns(T.untyped)',
+        ]);
+        yield ').returns(T::Array[T.untyped])';
+      });
+      yield* block('def map_items(value, path, type_name, &blk)', [
+        'raise MappingError.new(type_name: "T::Array[#{type_name}]", path: path, value: value) unless value.is_a?(Array)',
+        '',
+        'value.each_with_index.map { |item, index| map_value(item, "#{path}[#{index}]", type_name, &blk) }',
+      ]);
+    })();
+
+    yield (function* () {
+      yield* block('sig do', function* () {
+        yield 'params(';
+        yield* indent([
+          'value: T.untyped,',
+          'path: String,',
+          'type_name: String,',
+          'blk: T.proc.params(value: T.untyped, path: String).returns(T.untyped)',
+        ]);
+        yield ').returns(T.untyped)';
+      });
+      yield 'def map_value(value, path, type_name, &blk)';
+      yield* indent('blk.call(value, path)');
+      yield 'rescue MappingError';
+      yield* indent('raise');
+      yield 'rescue StandardError';
+      yield* indent(
+        'raise MappingError.new(type_name: type_name, path: path, value: value)',
+      );
+      yield 'end';
+    })();
+  }
+
+  private *buildValidationErrors(): Iterable<Iterable<string>> {
+    if (!this.options?.sorbetHttpClient?.validateParameters) return;
+
+    yield (function* () {
+      yield '# A validation rule that a request parameter does not satisfy';
+      yield* block('class Violation < T::Struct', [
+        'const :parameter, String',
+        'const :rule, String',
+        'const :message, String',
+      ]);
+    })();
+
+    yield (function* () {
+      yield '# Raised before a request is sent when its parameters do not satisfy the';
+      yield '# validation rules of the service';
+      yield* block('class ValidationError < ArgumentError', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'sig { returns(T::Array[Violation]) }';
+        yield 'attr_reader :violations';
+        yield '';
+        yield 'sig { params(violations: T::Array[Violation]).void }';
+        yield* block('def initialize(violations)', [
+          'super("Invalid parameters: #{violations.map(&:message).join(\'; \')}")',
+          '@violations = violations',
+        ]);
+      });
+    })();
+  }
+
+  private *buildResponse(): Iterable<Iterable<string>> {
+    if (!this.options?.sorbetHttpClient?.responseEnvelopes) return;
+
+    yield (function* () {
+      yield '# The status code and headers of a successful response along with its typed body';
+      yield* block('class Response < T::Struct', function* () {
+        yield 'extend T::Generic';
+        yield '';
+        yield 'Body = type_member';
+        yield '';
+        yield 'const :status, Integer';
+        yield 'const :headers, T::Hash[String, T::Array[String]]';
+        yield 'const :body, Body';
+      });
+    })();
+  }
+
+  private *buildFuture(): Iterable<Iterable<string>> {
+    if (!this.options?.sorbetHttpClient?.asyncClients) return;
+
+    yield (function* () {
+      yield '# The eventual result of a request made by an async client';
+      yield* block('class Future', function* () {
+        yield 'extend T::Sig';
+        yield 'extend T::Generic';
+        yield '';
+        yield 'Value = type_member';
+        yield '';
+        yield 'sig { params(promise: Concurrent::Promises::Future).void }';
+        yield* block('def initialize(promise)', ['@promise = promise']);
+        yield '';
+        yield '# Blocks until the request completes and returns its result. Raises the';
+        yield '# error of a failed request or Timeout::Error if the timeout elapses first.';
+        yield 'sig { params(timeout: T.nilable(Numeric)).returns(Value) }';
+        yield* block('def value(timeout = nil)', [
+          "raise Timeout::Error, 'Request did not complete in time' unless @promise.wait(timeout)",
+          '',
+          'T.cast(@promise.value!, Value)',
+        ]);
+        yield '';
+        yield '# Blocks until the request completes or the timeout elapses';
+        yield 'sig { params(timeout: T.nilable(Numeric)).returns(T::Boolean) }';
+        yield* block('def wait(timeout = nil)', [
+          '@promise.wait(timeout) ? true : false',
+        ]);
+        yield '';
+        yield 'sig { returns(T::Boolean) }';
+        yield* block('def resolved?', ['@promise.resolved?']);
+        yield '';
+        yield 'sig { returns(T::Boolean) }';
+        yield* block('def fulfilled?', ['@promise.fulfilled?']);
+        yield '';
+        yield 'sig { returns(T::Boolean) }';
+        yield* block('def rejected?', ['@promise.rejected?']);
+        yield '';
+        yield '# The error raised by a failed request';
+        yield 'sig { returns(T.nilable(Exception)) }';
+        yield* block('def reason', ['@promise.reason']);
+      });
+    })();
+  }
+
+  private *buildRequestOptions(): Iterable<Iterable<string>> {
+    yield (function* () {
+      yield '# Raised instead of sending a request whose cancellation token has been cancelled';
+      yield 'class CancelledError < StandardError; end';
+    })();
+
+    yield (function* () {
+      yield '# Cancels the requests that it is passed to. Requests that have already been';
+      yield '# sent are allowed to complete, but are not retried.';
+      yield* block('class CancellationToken', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'sig { void }';
+        yield* block('def initialize', [
+          '@cancelled = T.let(false, T::Boolean)',
+        ]);
+        yield '';
+        yield 'sig { void }';
+        yield* block('def cancel!', ['@cancelled = true']);
+        yield '';
+        yield 'sig { returns(T::Boolean) }';
+        yield* block('def cancelled?', ['@cancelled']);
+      });
+    })();
+
+    yield (function* () {
+      yield '# Options that apply to a single call of a client method';
+      yield* block('class RequestOptions < T::Struct', [
+        '# Headers to set on the request, replacing any set by the client',
+        'const :headers, T::Hash[String, String], default: {}',
+        '# Seconds to wait for the response, replacing the read timeout of the transport',
+        'const :timeout, T.nilable(Numeric)',
+        'const :cancellation, T.nilable(CancellationToken)',
+      ]);
+    })();
+  }
+
+  private *buildInstrumentation(): Iterable<Iterable<string>> {
+    if (!this.options?.sorbetHttpClient?.instrumentation) return;
+
+    const eventName = `request.${snake(this.service.title.value)}`;
+
+    yield (function* () {
+      yield '# Describes a call to a client method. The path is the template from the';
+      yield '# service definition (eg. `/widgets/{id}`) rather than the requested URI so';
+      yield '# that metrics and traces grouped by path have a low cardinality.';
+      yield* block('class RequestEvent < T::Struct', [
+        'const :service, String',
+        'const :interface, String',
+        'const :method_name, String',
+        'const :http_method, String',
+        'const :path, String',
+      ]);
+    })();
+
+    yield (function* () {
+      yield '# Observes each call made by a client. Implement this interface to publish';
+      yield '# metrics or traces with a library such as OpenTelemetry.';
+      yield* block('module Instrumenter', function* () {
+        yield 'extend T::Sig';
+        yield 'extend T::Helpers';
+        yield 'interface!';
+        yield '';
+        yield '# Must call the block exactly once and return its response. Errors raised';
+        yield '# by the block should be re-raised.';
+        yield 'sig { abstract.params(event: RequestEvent, blk: T.proc.returns(Net::HTTPResponse)).returns(Net::HTTPResponse) }';
+        yield 'def instrument(event, &blk); end';
+      });
+    })();
+
+    yield (function* () {
+      yield '# Publishes each call as an ActiveSupport::Notifications event whose payload';
+      yield '# includes the fields of the RequestEvent and the response status';
+      yield* block('class NotificationsInstrumenter', function* () {
+        yield 'extend T::Sig';
+        yield 'include Instrumenter';
+        yield '';
+        yield 'sig { params(name: String).void }';
+        yield* block(`def initialize(name: '${eventName}')`, ['@name = name']);
+        yield '';
+        yield 'sig { override.params(event: RequestEvent, blk: T.proc.returns(Net::HTTPResponse)).returns(Net::HTTPResponse) }';
+        yield* block('def instrument(event, &blk)', function* () {
+          yield* block(
+            'ActiveSupport::Notifications.instrument(@name, event.serialize.transform_keys(&:to_sym)) do |payload|',
+            [
+              'res = blk.call',
+              'payload[:status] = Integer(res.code, 10)',
+              'res',
+            ],
+          );
+        });
+      });
+    })();
+
+    yield (function* () {
+      yield 'sig { params(instrumenter: T.nilable(Instrumenter), event: RequestEvent, blk: T.proc.returns(Net::HTTPResponse)).returns(Net::HTTPResponse) }';
+      yield* block('def instrument(instrumenter, event, &blk)', [
+        'instrumenter.nil? ? blk.call : instrumenter.instrument(event, &blk)',
+      ]);
+    })();
+  }
+
+  private *buildTransport(): Iterable<Iterable<string>> {
+    yield (function* () {
+      yield '# Sends HTTP requests on behalf of the generated clients. Implement this';
+      yield '# interface to use a different HTTP library, a test double, or an';
+      yield '# instrumented adapter.';
+      yield* block('module Transport', function* () {
+        yield 'extend T::Sig';
+        yield 'extend T::Helpers';
+        yield 'interface!';
+        yield '';
+        yield '# Sends the request and returns its response. When `timeout` is set, it';
+        yield '# replaces the read timeout for this request only. When a block is given, the';
+        yield '# body of a successful response is yielded to it in chunks as it is read';
+        yield '# rather than being buffered in the response.';
+        yield 'sig { abstract.params(uri: URI::Generic, req: Net::HTTPRequest, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield 'def request(uri, req, timeout: nil, &blk); end';
+      });
+    })();
+
+    yield (function* () {
+      yield '# Default transport that keeps a persistent Net::HTTP connection per host and';
+      yield '# thread so that concurrent requests are not serialized. Connections of';
+      yield '# threads that have exited are closed as new threads connect.';
+      yield* block('class NetHttpTransport', function* () {
+        yield 'extend T::Sig';
+        yield 'include Transport';
+        yield '';
+        yield* block('sig do', function* () {
+          yield 'params(';
+          yield* indent([
+            'use_ssl: T.nilable(T::Boolean),',
+            'open_timeout: T.nilable(Numeric),',
+            'read_timeout: T.nilable(Numeric),',
+            'proxy_address: T.nilable(String),',
+            'proxy_port: T.nilable(Integer),',
+            'proxy_user: T.nilable(String),',
+            'proxy_pass: T.nilable(String)',
+          ]);
+          yield ').void';
+        });
+        yield* block(
+          'def initialize(use_ssl: nil, open_timeout: nil, read_timeout: nil, proxy_address: nil, proxy_port: nil, proxy_user: nil, proxy_pass: nil)',
+          [
+            '@use_ssl = use_ssl',
+            '@open_timeout = open_timeout',
+            '@read_timeout = read_timeout',
+            '@proxy_address = proxy_address',
+            '@proxy_port = proxy_port',
+            '@proxy_user = proxy_user',
+            '@proxy_pass = proxy_pass',
+            '@connections = T.let({}, T::Hash[Thread, T::Hash[String, Net::HTTP]])',
+            '@mutex = T.let(Mutex.new, Mutex)',
+          ],
+        );
+        yield '';
+        yield 'sig { override.params(uri: URI::Generic, req: Net::HTTPRequest, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield* block('def request(uri, req, timeout: nil, &blk)', function* () {
+          yield 'http = connection(uri)';
+          yield 'return perform(http, req, &blk) if timeout.nil?';
+          yield '';
+          yield 'previous = http.read_timeout';
+          yield 'begin';
+          yield* indent([
+            'http.read_timeout = timeout',
+            'perform(http, req, &blk)',
+          ]);
+          yield 'ensure';
+          yield* indent(['http.read_timeout = previous']);
+          yield 'end';
+        });
+        yield '';
+        yield '# Closes all open connections';
+        yield 'sig { void }';
+        yield* block('def close', function* () {
+          yield* block('@mutex.synchronize do', [
+            '@connections.each_value { |connections| finish(connections) }',
+            '@connections.clear',
+          ]);
+        });
+        yield '';
+        yield 'private';
+        yield '';
+        yield '# Net::HTTP reads the body of any response that the block does not read, so';
+        yield '# unsuccessful responses keep their body for HttpClientError';
+        yield 'sig { params(http: Net::HTTP, req: Net::HTTPRequest, blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield* block('def perform(http, req, &blk)', function* () {
+          yield 'return http.request(req) if blk.nil?';
+          yield '';
+          yield 'http.request(req) { |res| res.read_body(&blk) if res.is_a?(Net::HTTPSuccess) }';
+        });
+        yield '';
+        yield 'sig { params(uri: URI::Generic).returns(Net::HTTP) }';
+        yield* block('def connection(uri)', function* () {
+          yield 'key = "#{uri.scheme}://#{uri.hostname}:#{uri.port}"';
+          yield* block('http = @mutex.synchronize do', function* () {
+            yield* block(
+              'connections = @connections[Thread.current] ||= begin',
+              ['prune', '{}'],
+            );
+            yield 'connections[key] ||= build_connection(uri)';
+          });
+          yield 'http.start unless http.started?';
+          yield 'http';
+        });
+        yield '';
+        yield '# Closes the connections of threads that have exited. Called while holding';
+        yield '# the mutex whenever a thread opens its first connection.';
+        yield 'sig { void }';
+        yield* block('def prune', function* () {
+          yield* block('@connections.delete_if do |thread, connections|', [
+            'next false if thread.alive?',
+            '',
+            'finish(connections)',
+            'true',
+          ]);
+        });
+        yield '';
+        yield 'sig { params(connections: T::Hash[String, Net::HTTP]).void }';
+        yield* block('def finish(connections)', [
+          'connections.each_value { |http| http.finish if http.started? }',
+        ]);
+        yield '';
+        yield 'sig { params(uri: URI::Generic).returns(Net::HTTP) }';
+        yield* block('def build_connection(uri)', [
+          'http = Net::HTTP.new(uri.hostname, uri.port, @proxy_address || :ENV, @proxy_port, @proxy_user, @proxy_pass)',
+          "http.use_ssl = @use_ssl.nil? ? uri.scheme == 'https' : @use_ssl",
+          'http.open_timeout = @open_timeout unless @open_timeout.nil?',
+          'http.read_timeout = @read_timeout unless @read_timeout.nil?',
+          'http',
+        ]);
+      });
+    })();
+  }
+
+  private *buildPipeline(): Iterable<Iterable<string>> {
+    yield [
+      '# Sends a request to the next middleware (or the transport) and returns its response',
+      'Next = T.type_alias { T.proc.params(req: Net::HTTPRequest).returns(Net::HTTPResponse) }',
+      '',
+      '# Receives each outgoing request and a continuation that sends it. Middleware',
+      '# may modify the request before calling `nxt` and inspect or replace the',
+      '# response that `nxt` returns.',
+      'Middleware = T.type_alias { T.proc.params(req: Net::HTTPRequest, nxt: Next).returns(Net::HTTPResponse) }',
+    ];
+
+    yield (function* () {
+      yield '# Sends requests through each middleware in order and then through the transport';
+      yield* block('class RequestPipeline', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'sig { params(transport: Transport, middleware: T::Array[Middleware], retry_policy: T.nilable(RetryPolicy)).void }';
+        yield* block(
+          'def initialize(transport:, middleware: [], retry_policy: nil)',
+          [
+            '@transport = transport',
+            '@middleware = middleware',
+            '@retry_policy = retry_policy',
+          ],
+        );
+        yield '';
+        yield '# Streamed requests are not retried because part of their body may already';
+        yield '# have been yielded to the block';
+        yield 'sig { params(uri: URI::Generic, req: Net::HTTPRequest, options: T.nilable(RequestOptions), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield* block('def call(uri, req, options = nil, &blk)', [
+          'return attempt(uri, req, options, &blk) if @retry_policy.nil? || blk',
+          '',
+          '@retry_policy.run(req) { attempt(uri, req, options) }',
+        ]);
+        yield '';
+        yield 'private';
+        yield '';
+        yield '# Raises instead of sending the request once its cancellation token has been';
+        yield '# cancelled, which also stops any remaining retries';
+        yield 'sig { params(uri: URI::Generic, req: Net::HTTPRequest, options: T.nilable(RequestOptions), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield* block('def attempt(uri, req, options, &blk)', [
+          'raise CancelledError, "#{req.method} #{uri} was cancelled" if options&.cancellation&.cancelled?',
+          '',
+          'dispatch(uri, req, 0, options&.timeout, &blk)',
+        ]);
+        yield '';
+        yield 'sig { params(uri: URI::Generic, req: Net::HTTPRequest, index: Integer, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }';
+        yield* block('def dispatch(uri, req, index, timeout, &blk)', [
+          'middleware = @middleware[index]',
+          'return @transport.request(uri, req, timeout: timeout, &blk) if middleware.nil?',
+          '',
+          'middleware.call(req, ->(r) { dispatch(uri, r, index + 1, timeout, &blk) })',
+        ]);
+      });
+    })();
+
+    yield (function* () {
+      yield '# Built-in middleware';
+      yield* block('module Middlewares', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield '# Sets each header that has not already been set on the request';
+        yield 'sig { params(headers: T::Hash[String, String]).returns(Middleware) }';
+        yield* block('def self.default_headers(headers)', function* () {
+          yield* block('lambda do |req, nxt|', [
+            'headers.each { |name, value| req[name] = value unless req.key?(name) }',
+            'nxt.call(req)',
+          ]);
+        });
+        yield '';
+        yield '# Logs each request and its response status and duration';
+        yield 'sig { params(logger: ::Logger).returns(Middleware) }';
+        yield* block('def self.logger(logger)', function* () {
+          yield* block('lambda do |req, nxt|', [
+            'started_at = Process.clock_gettime(Process::CLOCK_MONOTONIC)',
+            'logger.info("HTTP #{req.method} #{req.uri}")',
+            'res = nxt.call(req)',
+            'duration = ((Process.clock_gettime(Process::CLOCK_MONOTONIC) - started_at) * 1000).round',
+            'logger.info("HTTP #{req.method} #{req.uri} completed with #{res.code} in #{duration}ms")',
+            'res',
+          ]);
+        });
+      });
+    })();
+  }
+
+  private *buildClientConfig(): Iterable<Iterable<string>> {
+    const prefix = snake(this.service.title.value).toUpperCase();
+    const env = (name: string) => rubyString(`${prefix}_${name}`);
+    const basePath = rubyString(buildBasePath(this.service, this.options));
+    const retryPolicy = buildDefaultRetryPolicy(this.options);
+    const instrumentation = this.options?.sorbetHttpClient?.instrumentation;
+
+    const schemes = new Map<string, SecurityScheme>();
+    for (const scheme of this.schemes) {
+      const name = snake(scheme.name.value);
+      if (!schemes.has(name)) schemes.set(name, scheme);
+    }
+
+    const credentials = Array.from(schemes.entries()).map(([name, scheme]) => {
+      const variable = `${prefix}_${name.toUpperCase()}`;
+      if (isBasicScheme(scheme)) {
+        const username = rubyString(`${variable}_USERNAME`);
+        const password = rubyString(`${variable}_PASSWORD`);
+        return {
+          name,
+          typeName: 'BasicCredentials',
+          variables: [`${variable}_USERNAME`, `${variable}_PASSWORD`],
+          value: `env.key?(${username}) ? BasicCredentials.new(username: env.fetch(${username}), password: env.fetch(${password})) : nil`,
+        };
+      }
+
+      return {
+        name,
+        typeName: isOAuth2Scheme(scheme) ? 'OAuth2Token' : 'String',
+        variables: [variable],
+        value: `env[${rubyString(variable)}]`,
+      };
+    });
+
+    yield (function* () {
+      yield '# The configuration shared by every client of the service';
+      yield* block('class ClientConfig < T::Struct', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'const :api_root, String';
+        yield `const :base_path, String, default: ${basePath}`;
+        for (const credential of credentials) {
+          yield `const :${credential.name}, T.nilable(${credential.typeName})`;
+        }
+        yield 'const :transport, Transport, factory: -> { NetHttpTransport.new }';
+        yield 'const :middleware, T::Array[Middleware], default: []';
+        yield retryPolicy === 'nil'
+          ? 'const :retry_policy, T.nilable(RetryPolicy)'
+          : `const :retry_policy, T.nilable(RetryPolicy), factory: -> { ${retryPolicy} }`;
+        if (instrumentation) {
+          yield 'const :instrumenter, T.nilable(Instrumenter)';
+        }
+        yield '';
+        yield '# Reads the configuration from the following environment variables:';
+        yield `# - ${prefix}_API_ROOT (required)`;
+        yield `# - ${prefix}_BASE_PATH (default: ${basePath})`;
+        for (const credential of credentials) {
+          yield `# - ${credential.variables.join(' and ')}`;
+        }
+        yield `# - ${prefix}_OPEN_TIMEOUT and ${prefix}_READ_TIMEOUT in seconds`;
+        yield 'sig { params(env: T::Hash[String, String]).returns(ClientConfig) }';
+        yield* block('def self.from_env(env = ENV.to_h)', function* () {
+          yield 'new(';
+          yield* indent(function* () {
+            yield `api_root: env.fetch(${env('API_ROOT')}),`;
+            yield `base_path: env.fetch(${env('BASE_PATH')}, ${basePath}),`;
+            for (const credential of credentials) {
+              yield `${credential.name}: ${credential.value},`;
+            }
+            yield 'transport: NetHttpTransport.new(';
+            yield* indent([
+              `open_timeout: env[${env(
+                'OPEN_TIMEOUT',
+              )}]&.then { |value| Float(value) },`,
+              `read_timeout: env[${env(
+                'READ_TIMEOUT',
+              )}]&.then { |value| Float(value) },`,
+            ]);
+            yield '),';
+          });
+          yield ')';
+        });
+      });
+    })();
+  }
+
+  private *buildRetryPolicy(): Iterable<Iterable<string>> {
+    yield (function* () {
+      yield '# Retries requests that fail with a connection error or a retryable status';
+      yield '# code using exponential backoff with full jitter. The `Retry-After`';
+      yield '# response header is honored when present.';
+      yield* block('class RetryPolicy', function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield 'IDEMPOTENT_VERBS = T.let(%w[GET HEAD PUT DELETE OPTIONS].freeze, T::Array[String])';
+        yield 'RETRYABLE_STATUS_CODES = T.let([408, 429, 500, 502, 503, 504].freeze, T::Array[Integer])';
+        yield 'RETRYABLE_ERRORS = T.let(';
+        yield* indent(function* () {
+          yield '[';
+          yield* indent([
+            'EOFError,',
+            'Errno::ECONNREFUSED,',
+            'Errno::ECONNRESET,',
+            'Errno::EPIPE,',
+            'Net::OpenTimeout,',
+            'Net::ReadTimeout,',
+          ]);
+          yield '].freeze,';
+          yield 'T::Array[T.class_of(StandardError)]';
+        });
+        yield ')';
+        yield '';
+        yield 'sig { returns(Integer) }';
+        yield 'attr_reader :max_attempts';
+        yield '';
+        yield* block('sig do', function* () {
+          yield 'params(';
+          yield* indent([
+            'max_attempts: Integer,',
+            'base_delay: Float,',
+            'max_delay: Float,',
+            'status_codes: T::Array[Integer],',
+            'verbs: T::Array[String]',
+          ]);
+          yield ').void';
+        });
+        yield* block(
+          'def initialize(max_attempts: 3, base_delay: 0.5, max_delay: 30.0, status_codes: RETRYABLE_STATUS_CODES, verbs: IDEMPOTENT_VERBS)',
+          [
+            '@max_attempts = max_attempts',
+            '@base_delay = base_delay',
+            '@max_delay = max_delay',
+            '@status_codes = status_codes',
+            '@verbs = T.let(verbs.map(&:upcase), T::Array[String])',
+          ],
+        );
+        yield '';
+        yield 'sig { params(req: Net::HTTPRequest, blk: T.proc.returns(Net::HTTPResponse)).returns(Net::HTTPResponse) }';
+        yield* block('def run(req, &blk)', function* () {
+          yield 'attempt = 1';
+          yield* block('loop do', function* () {
+            yield 'begin';
+            yield* indent('res = yield');
+            yield 'rescue *RETRYABLE_ERRORS';
+            yield* indent([
+              'raise unless retry?(req, attempt)',
+              '',
+              'sleep(delay(attempt, nil))',
+            ]);
+            yield 'else';
+            yield* indent([
+              'return res unless retry?(req, attempt) && @status_codes.include?(Integer(res.code, 10))',
+              '',
+              "sleep(delay(attempt, res['Retry-After']))",
+            ]);
+            yield 'end';
+            yield 'attempt += 1';
+          });
+        });
+        yield '';
+        yield 'private';
+        yield '';
+        yield 'sig { params(req: Net::HTTPRequest, attempt: Integer).returns(T::Boolean) }';
+        yield* block('def retry?(req, attempt)', [
+          'attempt < @max_attempts && @verbs.include?(req.method)',
+        ]);
+        yield '';
+        yield 'sig { params(attempt: Integer, retry_after: T.nilable(String)).returns(Float) }';
+        yield* block('def delay(attempt, retry_after)', [
+          'requested = parse_retry_after(retry_after)',
+          'return [requested, @max_delay].min unless requested.nil?',
+          '',
+          'rand * [@base_delay * (2**(attempt - 1)), @max_delay].min',
+        ]);
+        yield '';
+        yield 'sig { params(value: T.nilable(String)).returns(T.nilable(Float)) }';
+        yield 'def parse_retry_after(value)';
+        yield* indent([
+          'return if value.nil?',
+          'return Float(value) if value.match?(/\\A\\d+(\\.\\d+)?\\z/)',
+          '',
+          '[Time.httpdate(value) - Time.now, 0.0].max',
+        ]);
+        yield 'rescue ArgumentError';
+        yield* indent('nil');
+        yield 'end';
+      });
+    })();
+  }
+}
+
+function* unexpectedBody(message: string): Iterable<string> {
+  yield 'raise UnexpectedBodyError.new(';
+  yield* indent([
+    'status: Integer(res.code, 10),',
+    'headers: res.to_hash,',
+    'body: res.body,',
+    `message: "${message}",`,
+  ]);
+  yield ')';
+}
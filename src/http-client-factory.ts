@@ -1,6 +1,7 @@
 import {
   allHttpPaths,
   allParameters,
+  ApiKeyScheme,
   File,
   Generator,
   HttpMethod,
@@ -8,29 +9,51 @@ import {
   HttpPath,
   Interface,
   isApiKeyScheme,
+  isBasicScheme,
+  isOAuth2Scheme,
   isRequired,
   Literal,
   Method,
   Parameter,
+  Primitive,
+  SecurityOption,
+  SecurityScheme,
   Service,
+  TypedValue,
+  ValidationRule,
 } from 'basketry';
 import {
   buildInterfaceName,
   buildInterfaceNamespace,
   buildMethodName,
   buildParameterName,
+  buildPropertyName,
   buildTypeName,
 } from '@basketry/sorbet/lib/name-factory';
 
 import { SorbetHttpClientOptions } from './types';
 import { warning } from '@basketry/sorbet/lib/warning';
-import { block, indent } from './utils';
+import { block, indent, rubyString } from './utils';
+import { buildBasePath, buildDefaultRetryPolicy } from './defaults';
+import { buildPrimitiveToDto } from './mapper-factory';
 import { pascal, snake } from 'case';
+import pluralize = require('pluralize');
 import {
+  buildAsyncClientFilepath,
+  buildAsyncClientName,
   buildClientFilepath,
+  buildClientName,
+  buildClientNamespace,
+  buildFakeClientFilepath,
+  buildFakeClientName,
   buildMapperName,
   buildMapperNamespace,
+  buildRequestStructFilepath,
+  buildRequestStructName,
+  buildServiceClientFilepath,
+  buildServiceClientName,
 } from './name-factory';
+import { getPagination } from './pagination';
 
 export const generateClients: Generator = (
   service,
@@ -42,7 +65,33 @@ export const generateClients: Generator = (
 const uri = 'safe_internal_uri';
 const req = 'safe_internal_req';
 const res = 'safe_internal_res';
+const auth = 'safe_internal_auth';
+const cookies = 'safe_internal_cookies';
+const form = 'safe_internal_form';
+const violations = 'safe_internal_violations';
+const page = 'safe_internal_page';
+const pageItems = 'safe_internal_items';
+const item = 'safe_internal_item';
+const yielder = 'safe_internal_yielder';
 const apiRoot = snake('apiRoot');
+const basePath = snake('basePath');
+const transport = snake('transport');
+const middleware = snake('middleware');
+const retryPolicy = snake('retryPolicy');
+const requestOptions = snake('requestOptions');
+const instrumenter = snake('instrumenter');
+const pipeline = snake('pipeline');
+const request = snake('request');
+
+type InitializerParam = {
+  name: string;
+  typeName: string;
+  defaultValue?: string;
+  /** Passed to the request pipeline rather than assigned to an instance variable */
+  isPipelineParam?: boolean;
+  /** The credentials of a security scheme */
+  isCredential?: boolean;
+};
 
 class Builder {
   constructor(
@@ -55,7 +104,26 @@ class Builder {
       this.buildClientFile(int),
     );
 
-    return [...clientFiles];
+    const requestStructFiles = sortInterfaces(this.service.interfaces)
+      .flatMap((int) => sortMethods(int.methods))
+      .filter((method) => this.usesRequestStruct(method))
+      .map((method) => this.buildRequestStructFile(method));
+
+    const asyncClientFiles = this.options?.sorbetHttpClient?.asyncClients
+      ? this.service.interfaces.map((int) => this.buildAsyncClientFile(int))
+      : [];
+
+    const fakeClientFiles = this.options?.sorbetHttpClient?.fakeClients
+      ? this.service.interfaces.map((int) => this.buildFakeClientFile(int))
+      : [];
+
+    return [
+      ...clientFiles,
+      ...requestStructFiles,
+      this.buildServiceClientFile(),
+      ...asyncClientFiles,
+      ...fakeClientFiles,
+    ];
   }
 
   private *comment(
@@ -86,8 +154,35 @@ class Builder {
     };
   }
 
-  private *buildClient(int: Interface): Iterable<string> {
-    const self = this;
+  private buildRequestStructFile(method: Method): File {
+    return {
+      path: buildRequestStructFilepath(method, this.service, this.options),
+      contents: from(this.buildRequestStruct(method)),
+    };
+  }
+
+  private buildServiceClientFile(): File {
+    return {
+      path: buildServiceClientFilepath(this.service, this.options),
+      contents: from(this.buildServiceClient()),
+    };
+  }
+
+  private buildAsyncClientFile(int: Interface): File {
+    return {
+      path: buildAsyncClientFilepath(int, this.service, this.options),
+      contents: from(this.buildAsyncClient(int)),
+    };
+  }
+
+  private buildFakeClientFile(int: Interface): File {
+    return {
+      path: buildFakeClientFilepath(int, this.service, this.options),
+      contents: from(this.buildFakeClient(int)),
+    };
+  }
+
+  private *buildFileHeader(): Iterable<string> {
     yield warning(this.service, require('../package.json'));
     yield '';
 
@@ -102,15 +197,18 @@ class Builder {
       }
       yield '';
     }
+  }
 
-    const methods = [...int.methods].sort((a, b) =>
-      a.name.value.localeCompare(b.name.value),
-    );
+  private *buildClient(int: Interface): Iterable<string> {
+    const self = this;
+    yield* this.buildFileHeader();
+
+    const methods = sortMethods(int.methods);
 
     yield* this.comment(int.description);
     yield* block(
       `module ${buildInterfaceNamespace(this.service, this.options)}`,
-      block(`class ${pascal(int.name)}HttpClient`, function* () {
+      block(`class ${buildClientName(int)}`, function* () {
         yield 'extend T::Sig';
         yield '';
         yield `include ${buildInterfaceNamespace(
@@ -123,11 +221,26 @@ class Builder {
         )}::${buildMapperName()}`;
         yield '';
         yield* self.buildInitializer(int);
+        yield '';
+        yield* self.buildFromConfig(int);
         for (const method of methods) {
           yield '';
           yield* self.comment(method.description);
           yield* self.buildSignature(method);
-          yield* self.buildDefinition(method);
+          if (self.options?.sorbetHttpClient?.responseEnvelopes) {
+            yield* self.buildEnvelopeDelegation(method);
+            yield '';
+            yield `# Same as \`${buildMethodName(
+              method,
+            )}\` but also returns the response status code and headers`;
+            yield* self.buildEnvelopeSignature(method);
+            yield* self.buildDefinition(int, method, true);
+          } else {
+            yield* self.buildDefinition(int, method, false);
+          }
+          yield* self.buildRequestMethods(int, method);
+          yield* self.buildStreamMethod(int, method);
+          yield* self.buildPaginator(method);
         }
       }),
     );
@@ -135,64 +248,420 @@ class Builder {
     yield '';
   }
 
-  private *buildInitializer(int: Interface) {
-    const names = Array.from(
-      new Set(
-        int.methods.flatMap((m) =>
-          m.security.flatMap((s) => s).map((o) => snake(o.name.value)),
+  private *buildServiceClient(): Iterable<string> {
+    const self = this;
+    yield* this.buildFileHeader();
+
+    const interfaces = sortInterfaces(this.service.interfaces);
+
+    yield '# Provides a client for each interface of the service. The clients share a';
+    yield '# single configuration and are built the first time that they are used.';
+    yield* block(
+      `module ${buildInterfaceNamespace(this.service, this.options)}`,
+      block(`class ${buildServiceClientName(this.service)}`, function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield `sig { params(config: ${self.mapper}::ClientConfig).void }`;
+        yield* block('def initialize(config:)', function* () {
+          yield '@config = config';
+          for (const int of interfaces) {
+            yield `@${buildAccessorName(int)} = T.let(nil, T.nilable(${
+              self.clientNamespace
+            }::${buildClientName(int)}))`;
+          }
+        });
+
+        for (const int of interfaces) {
+          const clientName = `${self.clientNamespace}::${buildClientName(int)}`;
+
+          yield '';
+          yield `sig { returns(${clientName}) }`;
+          yield* block(
+            `def ${buildAccessorName(int)}`,
+            `@${buildAccessorName(int)} ||= ${clientName}.from_config(@config)`,
+          );
+        }
+      }),
+    );
+
+    yield '';
+  }
+
+  /**
+   * Builds a client from the `ClientConfig` of the service. Credentials that
+   * the client requires are checked because they are optional in the config.
+   */
+  private *buildFromConfig(int: Interface): Iterable<string> {
+    const params = this.buildInitializerParams(int);
+
+    yield '# Builds a client from the configuration shared by every client of the service';
+    yield `sig { params(config: ${this.mapper}::ClientConfig).returns(${
+      this.clientNamespace
+    }::${buildClientName(int)}) }`;
+    yield* block('def self.from_config(config)', function* () {
+      yield 'new(';
+      yield* indent(
+        params.map((param) =>
+          param.isCredential && param.defaultValue === undefined
+            ? `${param.name}: config.${param.name} || raise(ArgumentError, '${
+                param.name
+              } is required by ${buildClientName(int)}'),`
+            : `${param.name}: config.${param.name},`,
         ),
-      ),
+      );
+      yield ')';
+    });
+  }
+
+  private get clientNamespace(): string {
+    return buildClientNamespace(this.service, this.options);
+  }
+
+  private *buildAsyncClient(int: Interface): Iterable<string> {
+    const self = this;
+    yield* this.buildFileHeader();
+
+    const methods = sortMethods(int.methods).filter((method) =>
+      getHttp(this.service, method.name.value),
     );
+    const client = `${buildClientNamespace(
+      this.service,
+      this.options,
+    )}::${buildClientName(int)}`;
 
-    yield `sig { params(${apiRoot}: String${names.length ? `, ` : ''}${names
-      .map((n) => `${n}: String`)
-      .join(', ')}).void }`;
+    yield* this.comment(int.description);
+    yield '# Runs each request of the wrapped client on a concurrent-ruby executor';
     yield* block(
-      `def initialize(${apiRoot}:${names.length ? `, ` : ''}${names
-        .map((n) => `${n}:`)
-        .join(', ')})`,
-      [`@${apiRoot} = ${apiRoot}`, ...names.map((n) => `@${n} = ${n}`)],
+      `module ${buildInterfaceNamespace(this.service, this.options)}`,
+      block(`class ${buildAsyncClientName(int)}`, function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield `include ${self.mapper}`;
+        yield '';
+        yield `sig { params(client: ${client}, executor: T.any(Symbol, Concurrent::ExecutorService)).void }`;
+        yield* block('def initialize(client:, executor: :io)', [
+          '@client = client',
+          '@executor = executor',
+        ]);
+        for (const method of methods) {
+          yield '';
+          yield* self.comment(method.description);
+          yield* self.buildSig(
+            method,
+            '',
+            `${self.mapper}::Future[${
+              method.returnType
+                ? buildTypeName({
+                    type: method.returnType,
+                    service: self.service,
+                    options: self.options,
+                  })
+                : 'NilClass'
+            }]`,
+          );
+          yield* block(
+            `def ${buildMethodName(method)}${buildParameters(method)}`,
+            `Future.new(Concurrent::Promises.future_on(@executor) { @client.${buildMethodName(
+              method,
+            )}${buildArguments(method)} })`,
+          );
+        }
+      }),
     );
+
+    yield '';
   }
 
-  private *buildSignature(method: Method): Iterable<string> {
+  private *buildFakeClient(int: Interface): Iterable<string> {
     const self = this;
+    yield* this.buildFileHeader();
 
-    if (method.returnType) {
-      const typeName = buildTypeName({
-        type: method.returnType!,
-        service: this.service,
-        options: this.options,
-      });
+    const methods = sortMethods(int.methods);
+
+    yield `# In-memory implementation of ${buildInterfaceName(
+      int,
+    )} for use in tests. Records every call`;
+    yield '# and returns the result (or raises the error) stubbed for each method.';
+    yield* block(
+      `module ${buildInterfaceNamespace(this.service, this.options)}`,
+      block(`class ${buildFakeClientName(int)}`, function* () {
+        yield 'extend T::Sig';
+        yield '';
+        yield `include ${buildInterfaceNamespace(
+          self.service,
+          self.options,
+        )}::${buildInterfaceName(int)}`;
+        yield '';
+        yield '# A call made to the fake client along with its arguments';
+        yield* block('class Call < T::Struct', [
+          'const :name, Symbol',
+          'const :arguments, T::Hash[Symbol, T.untyped]',
+        ]);
+        yield '';
+        yield* block('class Stub < T::Struct', [
+          'const :result, T.untyped',
+          'const :error, T.nilable(Exception)',
+        ]);
+        yield 'private_constant :Stub';
+        yield '';
+        yield 'sig { void }';
+        yield* block('def initialize', [
+          '@calls = T.let([], T::Array[Call])',
+          '@stubs = T.let({}, T::Hash[Symbol, Stub])',
+        ]);
+        yield '';
+        yield '# Every call made to the fake client in order';
+        yield 'sig { returns(T::Array[Call]) }';
+        yield 'attr_reader :calls';
+        yield '';
+        yield '# The calls made to a single method in order';
+        yield 'sig { params(name: Symbol).returns(T::Array[Call]) }';
+        yield* block('def calls_to(name)', [
+          '@calls.select { |call| call.name == name }',
+        ]);
+        yield '';
+        yield '# Makes subsequent calls to a method raise the error';
+        yield 'sig { params(name: Symbol, error: Exception).void }';
+        yield* block('def stub_error(name, error)', [
+          '@stubs[name] = Stub.new(result: nil, error: error)',
+        ]);
+        yield '';
+        yield '# Clears all recorded calls and stubs';
+        yield 'sig { void }';
+        yield* block('def reset!', ['@calls.clear', '@stubs.clear']);
+
+        for (const method of methods) {
+          const name = buildMethodName(method);
+          const args = sortParameters(method.parameters)
+            .map(
+              (param) =>
+                `${buildParameterName(param)}: ${buildParameterName(param)}`,
+            )
+            .join(', ');
+
+          yield '';
+          yield* self.comment(method.description);
+          yield* self.buildSignature(method);
+          yield* block(`def ${name}${buildParameters(method)}`, function* () {
+            yield `record(:${name}, {${args ? ` ${args} ` : ''}})`;
+            if (method.returnType) yield `stubbed_result(:${name})`;
+          });
+
+          if (method.returnType) {
+            yield '';
+            yield `# Makes subsequent calls to \`${name}\` return the result`;
+            yield `sig { params(result: ${buildTypeName({
+              type: method.returnType,
+              service: self.service,
+              options: self.options,
+            })}).void }`;
+            yield* block(`def stub_${name}(result)`, [
+              `@stubs[:${name}] = Stub.new(result: result, error: nil)`,
+            ]);
+          }
+        }
+
+        yield '';
+        yield 'private';
+        yield '';
+        yield 'sig { params(name: Symbol, arguments: T::Hash[Symbol, T.untyped]).void }';
+        yield* block('def record(name, arguments)', [
+          '@calls << Call.new(name: name, arguments: arguments)',
+          'error = @stubs[name]&.error',
+          'raise error if error',
+        ]);
+        yield '';
+        yield 'sig { params(name: Symbol).returns(T.untyped) }';
+        yield* block('def stubbed_result(name)', [
+          '@stubs.fetch(name) { raise NotImplementedError, "No result has been stubbed for #{name}" }.result',
+        ]);
+      }),
+    );
+
+    yield '';
+  }
+
+  private *buildInitializer(int: Interface) {
+    const params = this.buildInitializerParams(int);
 
-      if (method.parameters.length) {
-        yield* block('sig do', function* () {
-          yield 'override.params(';
-          yield* self.buildSignatureParameters(method);
-          yield `).returns(`;
-          yield* indent(typeName);
-          yield `)`;
+    yield `sig { params(${params
+      .map((param) => `${param.name}: ${param.typeName}`)
+      .join(', ')}).void }`;
+    yield* block(
+      `def initialize(${params
+        .map(
+          (param) =>
+            `${param.name}:${
+              param.defaultValue === undefined ? '' : ` ${param.defaultValue}`
+            }`,
+        )
+        .join(', ')})`,
+      function* () {
+        for (const param of params) {
+          if (!param.isPipelineParam) yield `@${param.name} = ${param.name}`;
+        }
+        yield `@${pipeline} = T.let(`;
+        yield* indent(function* () {
+          yield `RequestPipeline.new(${params
+            .filter((param) => param.isPipelineParam)
+            .map((param) => `${param.name}: ${param.name}`)
+            .join(', ')}),`;
+          yield 'RequestPipeline';
         });
-      } else {
-        yield `sig { override.returns(${typeName}) }`;
-      }
+        yield ')';
+      },
+    );
+  }
+
+  private buildInitializerParams(int: Interface): InitializerParam[] {
+    return [
+      { name: apiRoot, typeName: 'String' },
+      {
+        name: basePath,
+        typeName: 'String',
+        defaultValue: rubyString(buildBasePath(this.service, this.options)),
+      },
+      ...getSecuritySchemes(int).map((scheme) => {
+        const typeName = this.buildSchemeTypeName(scheme);
+        return isRequiredScheme(int, scheme)
+          ? { name: snake(scheme.name.value), typeName, isCredential: true }
+          : {
+              name: snake(scheme.name.value),
+              typeName: `T.nilable(${typeName})`,
+              defaultValue: 'nil',
+              isCredential: true,
+            };
+      }),
+      {
+        name: transport,
+        typeName: `${this.mapper}::Transport`,
+        defaultValue: 'NetHttpTransport.new',
+        isPipelineParam: true,
+      },
+      {
+        name: middleware,
+        typeName: `T::Array[${this.mapper}::Middleware]`,
+        defaultValue: '[]',
+        isPipelineParam: true,
+      },
+      {
+        name: retryPolicy,
+        typeName: `T.nilable(${this.mapper}::RetryPolicy)`,
+        defaultValue: buildDefaultRetryPolicy(this.options),
+        isPipelineParam: true,
+      },
+      ...(this.options?.sorbetHttpClient?.instrumentation
+        ? [
+            {
+              name: instrumenter,
+              typeName: `T.nilable(${this.mapper}::Instrumenter)`,
+              defaultValue: 'nil',
+            },
+          ]
+        : []),
+    ];
+  }
+
+  private get mapper(): string {
+    return `${buildMapperNamespace(
+      this.service,
+      this.options,
+    )}::${buildMapperName()}`;
+  }
+
+  private buildSchemeTypeName(scheme: SecurityScheme): string {
+    if (isBasicScheme(scheme)) {
+      return `${this.mapper}::BasicCredentials`;
+    } else if (isOAuth2Scheme(scheme)) {
+      return `${this.mapper}::OAuth2Token`;
     } else {
-      if (method.parameters.length) {
-        yield* block('sig do', function* () {
-          yield 'override.params(';
-          yield* self.buildSignatureParameters(method);
-          yield ').void';
-        });
+      return 'String';
+    }
+  }
+
+  private *buildSignature(
+    method: Method,
+    withRequest = false,
+  ): Iterable<string> {
+    yield* this.buildSig(
+      method,
+      withRequest ? '' : 'override.',
+      method.returnType
+        ? buildTypeName({
+            type: method.returnType,
+            service: this.service,
+            options: this.options,
+          })
+        : undefined,
+      withRequest,
+    );
+  }
+
+  private *buildEnvelopeSignature(
+    method: Method,
+    withRequest = false,
+  ): Iterable<string> {
+    const bodyTypeName = method.returnType
+      ? buildTypeName({
+          type: method.returnType,
+          service: this.service,
+          options: this.options,
+        })
+      : 'NilClass';
+
+    yield* this.buildSig(
+      method,
+      '',
+      `${this.mapper}::Response[${bodyTypeName}]`,
+      withRequest,
+    );
+  }
+
+  private *buildSig(
+    method: Method,
+    modifier: string,
+    typeName: string | undefined,
+    withRequest = false,
+    withBlock = false,
+  ): Iterable<string> {
+    const self = this;
+
+    yield* block('sig do', function* () {
+      yield `${modifier}params(`;
+      yield* self.buildSignatureParameters(method, withRequest, withBlock);
+      if (typeName) {
+        yield `).returns(`;
+        yield* indent(typeName);
+        yield `)`;
       } else {
-        yield 'sig { override.void }';
+        yield ').void';
       }
-    }
+    });
   }
 
-  private *buildSignatureParameters(method: Method): Iterable<string> {
-    yield* indent(
-      sortParameters(method.parameters).map((param, i) => {
-        const comma = i === method.parameters.length - 1 ? '' : ',';
+  /**
+   * Builds the typed parameters of a client method. Every method accepts a
+   * trailing `request_options:` parameter in addition to the parameters of the
+   * service interface (or the request struct of a `send_<method>` method).
+   * Streaming methods also accept a block for the chunks of the response body.
+   */
+  private *buildSignatureParameters(
+    method: Method,
+    withRequest = false,
+    withBlock = false,
+  ): Iterable<string> {
+    if (withRequest) {
+      yield* indent([
+        `${request}: ${this.clientNamespace}::${buildRequestStructName(
+          method,
+        )},`,
+        `${requestOptions}: T.nilable(${this.mapper}::RequestOptions)`,
+      ]);
+      return;
+    }
+
+    yield* indent([
+      ...sortParameters(method.parameters).map((param) => {
         const typeName = buildTypeName({
           type: param,
           service: this.service,
@@ -202,41 +671,311 @@ class Builder {
           ? typeName
           : `T.nilable(${typeName})`;
 
-        return `${buildParameterName(param)}: ${nilableTypeName}${comma}`;
+        return `${buildParameterName(param)}: ${nilableTypeName},`;
       }),
-    );
+      ...(withBlock
+        ? [
+            `${requestOptions}: T.nilable(${this.mapper}::RequestOptions),`,
+            'blk: T.proc.params(chunk: String).void',
+          ]
+        : [`${requestOptions}: T.nilable(${this.mapper}::RequestOptions)`]),
+    ]);
   }
 
-  private *buildDefinition(method: Method): Iterable<string> {
+  private *buildDefinition(
+    int: Interface,
+    method: Method,
+    withResponse: boolean,
+    withRequest = false,
+    stream = false,
+  ): Iterable<string> {
     const self = this;
     const [httpMethod, httpPath] =
       getHttp(this.service, method.name.value) || [];
     if (httpMethod && httpPath) {
-      const parameters = method.parameters.length
-        ? `(${sortParameters(method.parameters)
-            .map(
-              (param) =>
-                `${buildParameterName(param)}:${
-                  isRequired(param) ? '' : ' nil'
-                }`,
-            )
-            .join(', ')})`
-        : '';
-
-      yield* block(`def ${buildMethodName(method)}${parameters}`, function* () {
-        yield `${uri} = URI("${self.buildUri(httpPath, method)}")`;
-        yield* self.buildQuery(method);
-        yield `${req} = Net::HTTP::${pascal(httpMethod.verb.value)}.new(${uri})`;
-        yield* self.buildHeaders(method);
-        yield* self.buildBody(method);
-        yield `${
-          method.returnType ? `${res} = ` : ''
-        }Net::HTTP.start(${uri}.hostname, ${uri}.port) { |http| http.request(${req}) }`;
-        yield* self.buildReturn(method);
-      });
+      const name = withResponse
+        ? buildEnvelopeMethodName(method)
+        : buildMethodName(method);
+
+      if (stream) {
+        yield* block(
+          `def stream_${name}${buildParameters(method, true)}`,
+          function* () {
+            yield* self.buildRequest(int, method, httpMethod, httpPath, true);
+          },
+        );
+        return;
+      }
+
+      if (!withRequest && this.usesRequestStruct(method)) {
+        yield* block(
+          `def ${name}${buildParameters(method)}`,
+          `send_${name}(${this.buildRequestStructValue(
+            method,
+          )}, ${requestOptions}: ${requestOptions})`,
+        );
+        return;
+      }
+
+      const parameters = withRequest
+        ? `(${request}, ${requestOptions}: nil)`
+        : buildParameters(method);
+
+      yield* block(
+        `def ${withRequest ? 'send_' : ''}${name}${parameters}`,
+        function* () {
+          if (withRequest) {
+            for (const param of sortParameters(method.parameters)) {
+              const paramName = buildParameterName(param);
+              yield `${paramName} = ${request}.${paramName}`;
+            }
+            yield '';
+          }
+          yield* self.buildRequest(int, method, httpMethod, httpPath, false);
+          if (withResponse) {
+            yield* self.buildEnvelopeReturn(method);
+          } else {
+            yield* self.buildReturn(method);
+          }
+        },
+      );
+    }
+  }
+
+  /**
+   * Builds the statements that send the request of a method and raise an
+   * HttpClientError unless its response is successful
+   */
+  private *buildRequest(
+    int: Interface,
+    method: Method,
+    httpMethod: HttpMethod,
+    httpPath: HttpPath,
+    stream: boolean,
+  ): Iterable<string> {
+    yield* this.buildValidation(method);
+    yield `${uri} = URI("${this.buildUri(httpPath, method)}")`;
+    yield* this.buildSecuritySelection(int, method);
+    yield* this.buildQuery(int, method);
+    yield `${req} = Net::HTTP::${pascal(httpMethod.verb.value)}.new(${uri})`;
+    yield* this.buildAccept(method);
+    yield* this.buildSecurity(int, method);
+    yield* this.buildHeaders(method);
+    yield* this.buildBody(method);
+    yield `${requestOptions}&.headers&.each { |name, value| ${req}[name] = value }`;
+    yield* this.buildPipelineCall(int, method, httpMethod, httpPath, stream);
+    yield `raise HttpClientError.from_response(${res}) unless ${res}.is_a?(Net::HTTPSuccess)`;
+  }
+
+  private *buildStreamMethod(int: Interface, method: Method): Iterable<string> {
+    if (!this.options?.sorbetHttpClient?.streaming || !method.returnType) {
+      return;
+    }
+    if (!getHttp(this.service, method.name.value)) return;
+
+    yield '';
+    yield `# Same as \`${buildMethodName(
+      method,
+    )}\` but yields the raw response body to the block in chunks`;
+    yield* this.buildSig(method, '', undefined, false, true);
+    yield* this.buildDefinition(int, method, false, false, true);
+  }
+
+  /**
+   * Builds the `send_<method>` variants of a method with a request struct.
+   * They take the place of the keyword methods of the service interface, which
+   * delegate to them.
+   */
+  private *buildRequestMethods(
+    int: Interface,
+    method: Method,
+  ): Iterable<string> {
+    if (!this.usesRequestStruct(method)) return;
+
+    const methodName = buildMethodName(method);
+    const structName = buildRequestStructName(method);
+
+    yield '';
+    yield `# Same as \`${methodName}\` but accepts its parameters in a \`${structName}\``;
+    yield* this.buildSignature(method, true);
+    if (this.options?.sorbetHttpClient?.responseEnvelopes) {
+      yield* block(
+        `def send_${methodName}(${request}, ${requestOptions}: nil)`,
+        `send_${buildEnvelopeMethodName(
+          method,
+        )}(${request}, ${requestOptions}: ${requestOptions})${
+          method.returnType ? '.body' : ''
+        }`,
+      );
+      yield '';
+      yield `# Same as \`send_${methodName}\` but also returns the response status code and headers`;
+      yield* this.buildEnvelopeSignature(method, true);
+      yield* this.buildDefinition(int, method, true, true);
+    } else {
+      yield* this.buildDefinition(int, method, false, true);
     }
   }
 
+  private *buildRequestStruct(method: Method): Iterable<string> {
+    const self = this;
+    yield* this.buildFileHeader();
+
+    yield `# The parameters of \`${buildMethodName(method)}\``;
+    yield* block(
+      `module ${this.clientNamespace}`,
+      block(
+        `class ${buildRequestStructName(method)} < T::Struct`,
+        function* () {
+          for (const param of sortParameters(method.parameters)) {
+            const typeName = buildTypeName({
+              type: param,
+              service: self.service,
+              options: self.options,
+            });
+
+            yield* self.comment(param.description);
+            yield `const :${buildParameterName(param)}, ${
+              isRequired(param) ? typeName : `T.nilable(${typeName})`
+            }`;
+          }
+        },
+      ),
+    );
+
+    yield '';
+  }
+
+  private buildRequestStructValue(method: Method): string {
+    const args = sortParameters(method.parameters).map((param) => {
+      const name = buildParameterName(param);
+      return `${name}: ${name}`;
+    });
+
+    return `${this.clientNamespace}::${buildRequestStructName(method)}.new${
+      args.length ? `(${args.join(', ')})` : ''
+    }`;
+  }
+
+  private usesRequestStruct(method: Method): boolean {
+    const requestStructs = this.options?.sorbetHttpClient?.requestStructs;
+    if (!requestStructs) return false;
+
+    return (
+      method.parameters.length >= (requestStructs.minParameters ?? 5) &&
+      !!getHttp(this.service, method.name.value)
+    );
+  }
+
+  private *buildPipelineCall(
+    int: Interface,
+    method: Method,
+    httpMethod: HttpMethod,
+    httpPath: HttpPath,
+    stream: boolean,
+  ): Iterable<string> {
+    const call = `@${pipeline}.call(${uri}, ${req}, ${requestOptions}${
+      stream ? ', &blk' : ''
+    })`;
+    if (!this.options?.sorbetHttpClient?.instrumentation) {
+      yield `${res} = ${call}`;
+      return;
+    }
+
+    const event = [
+      `service: ${rubyString(this.service.title.value)}`,
+      `interface: ${rubyString(int.name)}`,
+      `method_name: ${rubyString(buildMethodName(method))}`,
+      `http_method: ${rubyString(httpMethod.verb.value.toUpperCase())}`,
+      `path: ${rubyString(httpPath.path.value)}`,
+    ].join(', ');
+
+    yield `${res} = instrument(@${instrumenter}, RequestEvent.new(${event})) { ${call} }`;
+  }
+
+  private *buildValidation(method: Method): Iterable<string> {
+    if (!this.options?.sorbetHttpClient?.validateParameters) return;
+
+    const checks = sortParameters(method.parameters).flatMap((param) =>
+      getParameterChecks(this.service, param, this.options),
+    );
+    if (!checks.length) return;
+
+    yield `${violations} = T.let([], T::Array[Violation])`;
+    for (const check of checks) {
+      yield `${violations} << Violation.new(parameter: '${
+        check.parameter
+      }', rule: '${check.rule}', message: ${rubyString(check.message)}) if ${
+        check.condition
+      }`;
+    }
+    yield `raise ValidationError.new(${violations}) unless ${violations}.empty?`;
+    yield '';
+  }
+
+  private *buildPaginator(method: Method): Iterable<string> {
+    const pagination = getPagination(this.service, method, this.options);
+    if (!pagination) return;
+
+    const methodName = buildMethodName(method);
+    const param = buildParameterName(pagination.parameter);
+    const itemType = buildTypeName({
+      type: pagination.items,
+      service: this.service,
+      options: this.options,
+      skipArrayify: true,
+    });
+    const items = isRequired(pagination.items)
+      ? `${page}.${buildPropertyName(pagination.items)}`
+      : `(${page}.${buildPropertyName(pagination.items)} || [])`;
+
+    yield '';
+    yield `# Lazily iterates over the items of every page returned by \`${methodName}\`,`;
+    yield `# starting with the page identified by \`${param}\``;
+    yield* this.buildSig(method, '', `T::Enumerator[${itemType}]`);
+    yield* block(
+      `def each_${methodName}${buildParameters(method)}`,
+      block(`Enumerator.new do |${yielder}|`, function* () {
+        yield* block('loop do', function* () {
+          switch (pagination.strategy) {
+            case 'cursor':
+              yield `${page} = ${methodName}${buildArguments(method)}`;
+              yield `${items}.each { |${item}| ${yielder} << ${item} }`;
+              yield `${param} = ${page}.${buildPropertyName(pagination.cursor!)}`;
+              yield `break if ${param}.nil?`;
+              break;
+            case 'link':
+              yield `${res} = ${buildEnvelopeMethodName(method)}${buildArguments(method)}`;
+              yield `${page} = ${res}.body`;
+              yield `${items}.each { |${item}| ${yielder} << ${item} }`;
+              yield `${param} = next_link_param(${res}.headers, '${pagination.parameter.name.value}')`;
+              yield `break if ${param}.nil?`;
+              break;
+            case 'page':
+            case 'offset':
+              yield `${page} = ${methodName}${buildArguments(method)}`;
+              yield `${pageItems} = ${items}`;
+              yield `break if ${pageItems}.empty?`;
+              yield '';
+              yield `${pageItems}.each { |${item}| ${yielder} << ${item} }`;
+              yield pagination.strategy === 'page'
+                ? `${param} = (${param} || 1) + 1`
+                : `${param} = (${param} || 0) + ${pageItems}.length`;
+              break;
+          }
+        });
+      }),
+    );
+  }
+
+  private *buildEnvelopeDelegation(method: Method): Iterable<string> {
+    yield* block(
+      `def ${buildMethodName(method)}${buildParameters(method)}`,
+      `${buildEnvelopeMethodName(method)}${buildArguments(method)}${
+        method.returnType ? '.body' : ''
+      }`,
+    );
+  }
+
   private buildUri(httpPath: HttpPath, method: Method): string {
     const map: Map<string, [Parameter, HttpParameter | undefined]> = new Map(
       method.parameters.map((p) => [
@@ -264,14 +1003,57 @@ class Builder {
         const [param, httpParam] = map.get(paramName) || [];
         if (!param || !httpParam || httpParam.in.value !== 'path') return seg;
 
-        return `#{${buildParameterName(param)}}`; // TODO: cast to correct type
+        return `#{${this.buildParamValue(param, httpParam)}}`;
       })
       .join('/');
 
-    return `#{@${apiRoot}}/v${this.service.majorVersion.value}${subpath}`;
+    return `#{@${apiRoot}}#{@${basePath}}${subpath}`;
   }
 
-  private *buildQuery(method: Method): Iterable<string> {
+  /**
+   * Builds the expression used to send a parameter value over the wire. Arrays
+   * are joined using the delimiter of their declared serialization format;
+   * `multi` query parameters are left as arrays so that each item is sent as a
+   * repeated key. Path segments are percent-encoded.
+   */
+  private buildParamValue(param: Parameter, httpParam: HttpParameter): string {
+    const name = buildParameterName(param);
+    const nav = isRequired(param) ? '.' : '&.';
+    const encode = (value: string): string =>
+      httpParam.in.value === 'path' ? `encode_path_segment(${value})` : value;
+
+    if (!param.isArray) return encode(this.buildWireValue(param, name, nav));
+
+    const item = encode(this.buildWireValue(param, 'item', '.'));
+    const items =
+      item === 'item' ? name : `${name}${nav}map { |item| ${item} }`;
+
+    const delimiter = getArrayDelimiter(httpParam);
+    return delimiter ? `${items}${nav}join(${delimiter})` : items;
+  }
+
+  /** Builds the expression that converts a single (non-array) value to its wire representation */
+  private buildWireValue(
+    value: TypedValue,
+    baseCase: string,
+    nav: '.' | '&.',
+  ): string {
+    if (value.isPrimitive) {
+      // Overrides are read by the mapper with `Override(value.to_s)`
+      return this.options?.sorbet?.types?.[value.typeName.value]
+        ? `${baseCase}${nav}to_s`
+        : buildPrimitiveToDto(value.typeName.value, baseCase, nav);
+    } else if (
+      this.service.enums.some((e) => e.name.value === value.typeName.value)
+    ) {
+      return `map_${snake(value.typeName.value)}_to_dto(${baseCase})`;
+    } else {
+      return baseCase;
+    }
+  }
+
+  private *buildQuery(int: Interface, method: Method): Iterable<string> {
+    const self = this;
     const paramsByName: Map<string, [Parameter, HttpParameter | undefined]> =
       new Map(
         method.parameters.map((p) => [
@@ -287,14 +1069,24 @@ class Builder {
       map.set(name, [param, queryParam]);
     }
 
-    // TODO: include API keys if present
-    if (map.size) {
+    const apiKeys = getSecuritySchemes(method)
+      .filter(isApiKeyScheme)
+      .filter((scheme) => scheme.in.value === 'query');
+
+    if (map.size || apiKeys.length) {
       yield `${uri}.query = URI.encode_www_form(`;
       yield* indent(function* () {
         yield '{';
         yield* indent(function* () {
           for (const [name, [param, queryParam]] of map) {
-            yield `'${name}': ${buildParameterName(param)},`; // TODO: cast to correct type
+            yield `'${name}': ${self.buildParamValue(param, queryParam)},`;
+          }
+          for (const scheme of apiKeys) {
+            yield `'${scheme.parameter.value}': ${self.buildApiKey(
+              int,
+              method,
+              scheme,
+            )},`;
           }
         });
         yield '}.compact';
@@ -304,6 +1096,104 @@ class Builder {
     }
   }
 
+  private *buildSecuritySelection(
+    int: Interface,
+    method: Method,
+  ): Iterable<string> {
+    if (!requiresSelection(int, method)) return;
+
+    const condition = (option: SecurityOption): string =>
+      option
+        .filter((scheme) => !isRequiredScheme(int, scheme))
+        .map((scheme) => `!@${snake(scheme.name.value)}.nil?`)
+        .join(' && ');
+
+    const symbols = (option: SecurityOption): string =>
+      `[${option.map((scheme) => `:${snake(scheme.name.value)}`).join(', ')}]`;
+
+    let isFirst = true;
+    for (const option of method.security) {
+      const cond = condition(option);
+
+      if (!cond) {
+        yield isFirst ? `${auth} = ${symbols(option)}` : 'else';
+        if (!isFirst) {
+          yield* indent(symbols(option));
+          yield 'end';
+        }
+        return;
+      }
+
+      yield `${isFirst ? `${auth} = if` : 'elsif'} ${cond}`;
+      yield* indent(symbols(option));
+      isFirst = false;
+    }
+
+    yield 'else';
+    yield* indent(
+      `raise ArgumentError, 'No configured credentials satisfy the security requirements of ${buildMethodName(
+        method,
+      )}'`,
+    );
+    yield 'end';
+  }
+
+  private *buildSecurity(int: Interface, method: Method): Iterable<string> {
+    const isSelected = requiresSelection(int, method);
+
+    for (const scheme of getSecuritySchemes(method)) {
+      const name = snake(scheme.name.value);
+      const credential = isRequiredScheme(int, scheme)
+        ? `@${name}`
+        : `T.must(@${name})`;
+      const guard = isSelected ? ` if ${auth}.include?(:${name})` : '';
+
+      if (isBasicScheme(scheme)) {
+        yield `${req}['Authorization'] = basic_authorization(${credential})${guard}`;
+      } else if (isOAuth2Scheme(scheme)) {
+        yield `${req}['Authorization'] = bearer_authorization(${credential})${guard}`;
+      } else if (isApiKeyScheme(scheme) && scheme.in.value === 'header') {
+        yield `${req}['${scheme.parameter.value}'] = ${credential}${guard}`;
+      }
+    }
+
+    const cookieKeys = getSecuritySchemes(method)
+      .filter(isApiKeyScheme)
+      .filter((scheme) => scheme.in.value === 'cookie');
+
+    if (cookieKeys.length) {
+      yield `${cookies} = {`;
+      yield* indent(
+        cookieKeys.map(
+          (scheme) =>
+            `'${scheme.parameter.value}': ${this.buildApiKey(
+              int,
+              method,
+              scheme,
+            )},`,
+        ),
+      );
+      yield '}.compact';
+      yield `${req}['Cookie'] = ${cookies}.map { |name, value| "#{name}=#{value}" }.join('; ') if ${cookies}.any?`;
+    }
+  }
+
+  /**
+   * Builds the value of an API key that is sent as part of a hash (query or
+   * cookies) from which unused keys are removed with `compact`.
+   */
+  private buildApiKey(
+    int: Interface,
+    method: Method,
+    scheme: ApiKeyScheme,
+  ): string {
+    const name = snake(scheme.name.value);
+
+    return requiresSelection(int, method)
+      ? `(@${name} if ${auth}.include?(:${name}))`
+      : `@${name}`;
+  }
+
   private *buildHeaders(method: Method): Iterable<string> {
     const paramsByName: Map<string, [Parameter, HttpParameter | undefined]> =
       new Map(
@@ -313,24 +1203,26 @@ class Builder {
         ]),
       );
 
-    const schemes = method.security.flatMap((s) => s);
-
-    for (const scheme of schemes) {
-      if (isApiKeyScheme(scheme) && scheme.in.value === 'header') {
-        yield `${req}['${scheme.parameter.value}'] = @${snake(
-          scheme.name.value,
-        )}`;
-      }
-      // TODO: oauth tokens
-    }
-
     for (const [name, [param, httpParam]] of paramsByName) {
       if (httpParam?.in?.value !== 'header') continue;
-      yield `${req}['${httpParam.name.value}'] = ${buildParameterName(param)}`;
+      const value = this.buildParamValue(param, httpParam);
+
+      // Net::HTTP drops a header that is set to `false`, so numbers and
+      // booleans are converted to strings before they are set
+      const isString =
+        param.isArray ||
+        !param.isPrimitive ||
+        ['string', 'date', 'date-time'].includes(param.typeName.value) ||
+        !!this.options?.sorbet?.types?.[param.typeName.value];
+
+      yield `${req}['${httpParam.name.value}'] = ${
+        isString ? value : `${value}${isRequired(param) ? '.' : '&.'}to_s`
+      }`;
     }
   }
 
   private *buildBody(method: Method): Iterable<string> {
+    const self = this;
     const paramsByName: Map<string, [Parameter, HttpParameter | undefined]> =
       new Map(
         method.parameters.map((p) => [
@@ -342,21 +1234,356 @@ class Builder {
     for (const [name, [param, httpParam]] of paramsByName) {
       if (httpParam?.in?.value !== 'body') continue;
       const paramName = buildParameterName(param);
-      yield `${req}.body = map_${snake(
-        param.typeName.value,
-      )}_to_dto(${paramName}).to_s${
-        isRequired(param) ? '' : ` if !${paramName}.nil?`
-      }`;
+      const lines = [
+        `${req}['Content-Type'] = 'application/json'`,
+        `${req}.body = ${this.buildDtoValue(param, paramName)}.to_json`,
+      ];
+
+      if (isRequired(param)) {
+        yield* lines;
+      } else {
+        yield* block(`if !${paramName}.nil?`, lines);
+      }
+    }
+
+    const formParams = Array.from(paramsByName.values()).filter(
+      ([, httpParam]) => httpParam?.in?.value === 'formData',
+    );
+
+    if (formParams.length) {
+      yield `${form} = {`;
+      yield* indent(function* () {
+        for (const [param, httpParam] of formParams) {
+          yield `'${httpParam!.name.value}': ${self.buildParamValue(
+            param,
+            httpParam!,
+          )},`;
+        }
+      });
+      yield '}.compact';
+      yield `write_form_body(${req}, ${form})`;
     }
   }
 
+  /** Builds the expression that converts a (non-nil) value to a JSON-serializable DTO */
+  private buildDtoValue(value: TypedValue, baseCase: string): string {
+    const item = value.isArray ? 'item' : baseCase;
+    const dto = value.isPrimitive
+      ? buildPrimitiveToDto(value.typeName.value, item, '.')
+      : `map_${snake(value.typeName.value)}_to_dto(${item})`;
+
+    if (!value.isArray) return dto;
+    return dto === item ? baseCase : `${baseCase}.map { |item| ${dto} }`;
+  }
+
   private *buildReturn(method: Method): Iterable<string> {
-    if (method.returnType) {
-      yield `map_dto_to_${snake(
-        method.returnType.typeName.value,
-      )}(JSON.parse(${res}.body))`;
+    if (method.returnType) yield this.buildResponseBody(method);
+  }
+
+  private buildResponseBody(method: Method): string {
+    const returnType = method.returnType!;
+    const jsonTypes = this.buildJsonTypes(returnType);
+    const body = jsonTypes
+      ? `read_body_as(${res}, ${jsonTypes.join(', ')})`
+      : `read_body(${res})`;
+
+    if (returnType.isPrimitive) {
+      return body;
+    } else if (returnType.isArray) {
+      return `${body}.map { |item| map_dto_to_${snake(
+        returnType.typeName.value,
+      )}(item) }`;
+    } else {
+      return `map_dto_to_${snake(returnType.typeName.value)}(${body})`;
     }
   }
+
+  /**
+   * Gets the Ruby classes of the parsed JSON values that can be mapped to a
+   * type. Returns `undefined` when any value can be mapped (eg. `untyped` or
+   * primitive type overrides).
+   */
+  private buildJsonTypes(value: TypedValue): string[] | undefined {
+    if (value.isArray) return ['Array'];
+
+    const typeName = value.typeName.value;
+    if (value.isPrimitive) {
+      if (this.options?.sorbet?.types?.[typeName]) return;
+      switch (typeName as Primitive) {
+        case 'string':
+        case 'date':
+        case 'date-time':
+          return ['String'];
+        case 'number':
+        case 'float':
+        case 'double':
+          return ['Numeric'];
+        case 'integer':
+        case 'long':
+          return ['Integer'];
+        case 'boolean':
+          return ['TrueClass', 'FalseClass'];
+        default:
+          return;
+      }
+    }
+
+    if (this.service.enums.some((e) => e.name.value === typeName)) {
+      return ['String'];
+    }
+
+    const union = this.service.unions.find((u) => u.name.value === typeName);
+    if (union) {
+      const jsonTypes = new Set<string>();
+      for (const member of union.members) {
+        const memberTypes = this.buildJsonTypes(member);
+        if (!memberTypes) return;
+        memberTypes.forEach((jsonType) => jsonTypes.add(jsonType));
+      }
+      return Array.from(jsonTypes);
+    }
+
+    return ['Hash'];
+  }
+
+  /**
+   * The service definition does not declare response media types, so JSON is
+   * requested for every method with a return type. Primitive return types may
+   * also be sent as plain text.
+   */
+  private *buildAccept(method: Method): Iterable<string> {
+    if (!method.returnType) return;
+
+    yield `${req}['Accept'] = '${
+      method.returnType.isPrimitive
+        ? 'application/json, text/plain;q=0.9'
+        : 'application/json'
+    }'`;
+  }
+  private *buildEnvelopeReturn(method: Method): Iterable<string> {
+    const self = this;
+    yield 'Response.new(';
+    yield* indent(function* () {
+      yield `status: Integer(${res}.code, 10),`;
+      yield `headers: ${res}.to_hash,`;
+      if (method.returnType) {
+        yield `body: ${self.buildResponseBody(method)},`;
+      } else {
+        yield 'body: nil,';
+      }
+    });
+    yield ')';
+  }
+}
+
+function buildParameters(method: Method, withBlock = false): string {
+  return `(${[
+    ...sortParameters(method.parameters).map(
+      (param) =>
+        `${buildParameterName(param)}:${isRequired(param) ? '' : ' nil'}`,
+    ),
+    `${requestOptions}: nil`,
+    ...(withBlock ? ['&blk'] : []),
+  ].join(', ')})`;
+}
+
+type ParameterCheck = {
+  parameter: string;
+  rule: ValidationRule['id'];
+  /** A Ruby expression that is true when the rule is violated */
+  condition: string;
+  message: string;
+};
+
+/**
+ * Gets the checks for the validation rules of a parameter that are not
+ * already enforced by its Sorbet type (eg. `required` or enum membership).
+ * Rules for strings and numbers apply to each item of an array parameter.
+ */
+function getParameterChecks(
+  service: Service,
+  param: Parameter,
+  options?: SorbetHttpClientOptions,
+): ParameterCheck[] {
+  const name = buildParameterName(param);
+  const typeName = param.typeName.value;
+  const isOverridden = !!options?.sorbet?.types?.[typeName];
+  const isString = param.isPrimitive && typeName === 'string' && !isOverridden;
+  const isNumber =
+    param.isPrimitive &&
+    ['number', 'integer', 'long', 'float', 'double'].includes(typeName) &&
+    !isOverridden;
+
+  const checks: ParameterCheck[] = [];
+  const add = (
+    rule: ValidationRule['id'],
+    condition: string,
+    message: string,
+  ) => {
+    checks.push({ parameter: name, rule, condition, message });
+  };
+  const guard = (condition: string) =>
+    isRequired(param) ? condition : `!${name}.nil? && ${condition}`;
+  /** Adds a check that applies to the parameter value or to each of its items */
+  const addEach = (
+    rule: ValidationRule['id'],
+    condition: (value: string) => string,
+    message: string,
+  ) => {
+    if (param.isArray) {
+      add(
+        rule,
+        guard(`${name}.any? { |item| ${condition('item')} }`),
+        `every item of ${name} ${message}`,
+      );
+    } else {
+      add(rule, guard(condition(name)), `${name} ${message}`);
+    }
+  };
+
+  for (const rule of param.rules) {
+    switch (rule.id) {
+      case 'array-max-items':
+        if (param.isArray) {
+          add(
+            rule.id,
+            guard(`${name}.length > ${rule.max.value}`),
+            `${name} must have at most ${rule.max.value} items`,
+          );
+        }
+        break;
+      case 'array-min-items':
+        if (param.isArray) {
+          add(
+            rule.id,
+            guard(`${name}.length < ${rule.min.value}`),
+            `${name} must have at least ${rule.min.value} items`,
+          );
+        }
+        break;
+      case 'array-unique-items':
+        if (param.isArray) {
+          add(
+            rule.id,
+            guard(`${name}.uniq.length != ${name}.length`),
+            `${name} must not contain duplicate items`,
+          );
+        }
+        break;
+      case 'string-max-length':
+        if (isString) {
+          addEach(
+            rule.id,
+            (value) => `${value}.length > ${rule.length.value}`,
+            `must be at most ${rule.length.value} characters`,
+          );
+        }
+        break;
+      case 'string-min-length':
+        if (isString) {
+          addEach(
+            rule.id,
+            (value) => `${value}.length < ${rule.length.value}`,
+            `must be at least ${rule.length.value} characters`,
+          );
+        }
+        break;
+      case 'string-pattern':
+        if (isString) {
+          addEach(
+            rule.id,
+            (value) =>
+              `!${value}.match?(Regexp.new(${rubyString(rule.pattern.value)}))`,
+            `must match /${rule.pattern.value}/`,
+          );
+        }
+        break;
+      case 'string-enum':
+        if (isString) {
+          const values = rule.values.map((v) => rubyString(v.value));
+          addEach(
+            rule.id,
+            (value) => `![${values.join(', ')}].include?(${value})`,
+            `must be one of ${rule.values.map((v) => v.value).join(', ')}`,
+          );
+        }
+        break;
+      case 'number-multiple-of':
+        if (isNumber) {
+          addEach(
+            rule.id,
+            (value) => `(${value} % ${rule.value.value}).nonzero?`,
+            `must be a multiple of ${rule.value.value}`,
+          );
+        }
+        break;
+      case 'number-gt':
+        if (isNumber) {
+          addEach(
+            rule.id,
+            (value) => `${value} <= ${rule.value.value}`,
+            `must be greater than ${rule.value.value}`,
+          );
+        }
+        break;
+      case 'number-gte':
+        if (isNumber) {
+          addEach(
+            rule.id,
+            (value) => `${value} < ${rule.value.value}`,
+            `must be greater than or equal to ${rule.value.value}`,
+          );
+        }
+        break;
+      case 'number-lt':
+        if (isNumber) {
+          addEach(
+            rule.id,
+            (value) => `${value} >= ${rule.value.value}`,
+            `must be less than ${rule.value.value}`,
+          );
+        }
+        break;
+      case 'number-lte':
+        if (isNumber) {
+          addEach(
+            rule.id,
+            (value) => `${value} > ${rule.value.value}`,
+            `must be less than or equal to ${rule.value.value}`,
+          );
+        }
+        break;
+    }
+  }
+
+  return checks;
+}
+
+function buildArguments(method: Method): string {
+  return `(${[...sortParameters(method.parameters), requestOptions]
+    .map((param) => {
+      const name =
+        typeof param === 'string' ? param : buildParameterName(param);
+      return `${name}: ${name}`;
+    })
+    .join(', ')})`;
+}
+
+export function sortInterfaces(interfaces: Interface[]): Interface[] {
+  return [...interfaces].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The name of the service client method that returns the interface client */
+function buildAccessorName(int: Interface): string {
+  return snake(pluralize(int.name));
+}
+
+export function sortMethods(methods: Method[]): Method[] {
+  return [...methods].sort((a, b) => a.name.value.localeCompare(b.name.value));
+}
+
+function buildEnvelopeMethodName(method: Method): string {
+  return `${buildMethodName(method)}_with_response`;
 }
 
 function sortParameters(parameters: Parameter[]): Parameter[] {
@@ -365,6 +1592,79 @@ function sortParameters(parameters: Parameter[]): Parameter[] {
   );
 }
 
+export function getSecuritySchemes(
+  container: Interface | Method,
+): SecurityScheme[] {
+  const methods = 'methods' in container ? container.methods : [container];
+  const schemes = new Map<string, SecurityScheme>();
+
+  for (const method of methods) {
+    for (const scheme of method.security.flatMap((option) => option)) {
+      const name = snake(scheme.name.value);
+      if (!schemes.has(name)) schemes.set(name, scheme);
+    }
+  }
+
+  return Array.from(schemes.values());
+}
+
+/**
+ * A scheme is required by the client if every method that declares security
+ * needs it regardless of which alternative security option is used.
+ */
+export function isRequiredScheme(
+  int: Interface,
+  scheme: SecurityScheme,
+): boolean {
+  const name = snake(scheme.name.value);
+
+  return int.methods
+    .filter((method) => method.security.length)
+    .every((method) =>
+      method.security.every((option) =>
+        option.some((s) => snake(s.name.value) === name),
+      ),
+    );
+}
+
+/**
+ * Selection is only needed when the method has alternative security options
+ * or when its only option depends on credentials that may not be configured.
+ */
+function requiresSelection(int: Interface, method: Method): boolean {
+  if (!method.security.length) return false;
+  if (method.security.length > 1) return true;
+
+  return method.security[0].some((scheme) => !isRequiredScheme(int, scheme));
+}
+
+/**
+ * Gets the Ruby string literal used to join array items. Delimiters in path
+ * segments are percent-encoded because they are interpolated into the URI
+ * after the individual items have been encoded.
+ */
+function getArrayDelimiter(httpParam: HttpParameter): string | undefined {
+  const isPath = httpParam.in.value === 'path';
+
+  switch (httpParam.array?.value) {
+    case 'ssv':
+      return isPath ? `'%20'` : `' '`;
+    case 'tsv':
+      return isPath ? `'%09'` : `"\\t"`;
+    case 'pipes':
+      return isPath ? `'%7C'` : `'|'`;
+    case 'multi':
+    case undefined:
+      // Only query strings and form data support repeated keys
+      return ['query', 'formData'].includes(httpParam.in.value)
+        ? undefined
+        : `','`;
+    case 'csv':
+    default:
+      return `','`;
+  }
+}
+
 function from(lines: Iterable<string>): string {
   return Array.from(lines).join('\n');
 }
@@ -374,7 +1674,7 @@ const httpPathCache = new WeakMap<
   Service,
   Map<string, [HttpMethod, HttpPath]>
 >();
-function getHttp(
+export function getHttp(
   service: Service,
   methodName: string,
 ): [HttpMethod, HttpPath] | undefined {
@@ -395,7 +1695,7 @@ function getHttp(
 
 // TODO: move to basketry
 const httpParameterCache = new WeakMap<Service, Map<string, HttpParameter>>();
-function getHttpParameter(
+export function getHttpParameter(
   service: Service,
   methodName: string,
   parameterName: string,
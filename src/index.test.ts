@@ -1,3 +1,4 @@
+import { Primitive, Service } from 'basketry';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import generate from '.';
@@ -29,4 +30,802 @@ describe('InterfaceFactory', () => {
       expect(file.contents).toStrictEqual(snapshot);
     }
   });
+
+  it('sends basic and bearer credentials in the Authorization header', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('auth_permutation_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['Authorization'] = basic_authorization(T.must(@basic_auth)) if safe_internal_auth.include?(:basic_auth)",
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['Authorization'] = bearer_authorization(T.must(@oauth2_auth)) if safe_internal_auth.include?(:oauth2_auth)",
+    );
+    expect(helpers?.contents).toContain('class BasicCredentials < T::Struct');
+    expect(helpers?.contents).toContain(
+      'OAuth2Token = T.type_alias { T.any(String, T.proc.returns(String)) }',
+    );
+  });
+
+  it('sends API keys in cookies', () => {
+    // ARRANGE
+    const service = withApiKeysIn('cookie');
+
+    // ACT
+    const files = generate(service, {});
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('auth_permutation_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      `'apikey': (@alternate_api_key_auth if safe_internal_auth.include?(:alternate_api_key_auth)),`,
+    );
+    expect(client?.contents).toContain(
+      `safe_internal_req['Cookie'] = safe_internal_cookies.map { |name, value| "#{name}=#{value}" }.join('; ') if safe_internal_cookies.any?`,
+    );
+    expect(client?.contents).not.toContain('safe_internal_uri.query');
+  });
+
+  it('raises typed errors for unsuccessful responses', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      'raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)',
+    );
+    expect(helpers?.contents).toContain(
+      'class HttpClientError < StandardError',
+    );
+    expect(helpers?.contents).toContain(
+      'class NotFoundError < ClientError; end',
+    );
+    expect(helpers?.contents).toContain('404 => NotFoundError,');
+  });
+
+  it('sends requests through an injectable transport', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain('transport: NetHttpTransport.new');
+    expect(client?.contents).toContain(
+      'transport: BasketryExample::V1::HttpClientHelpers::Transport',
+    );
+    expect(helpers?.contents).toContain('module Transport');
+    expect(helpers?.contents).toContain('class NetHttpTransport');
+    expect(client?.contents).not.toContain('Net::HTTP.start');
+  });
+
+  it('sends requests through the middleware pipeline', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      'RequestPipeline.new(transport: transport, middleware: middleware, retry_policy: retry_policy),',
+    );
+    expect(client?.contents).toContain(
+      'safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)',
+    );
+    expect(helpers?.contents).toContain('class RequestPipeline');
+    expect(helpers?.contents).toContain('def self.default_headers(headers)');
+  });
+
+  it('builds URIs from the configured base path', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { basePath: 'api/v{majorVersion}beta/' },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    expect(client?.contents).toContain("base_path: '/api/v1beta'");
+    expect(client?.contents).toContain(
+      'safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets")',
+    );
+  });
+
+  it('builds a default retry policy from options', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: {
+        retry: { maxAttempts: 5, baseDelay: 1, verbs: ['get'] },
+      },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      'retry_policy: RetryPolicy.new(max_attempts: 5, base_delay: 1.0, verbs: %w[GET])',
+    );
+  });
+
+  it('sends primitive type overrides as strings', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbet: { types: { 'date-time': 'Moment' } },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('exhaustive_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      `'string-date-time': string_date_time&.to_s,`,
+    );
+  });
+
+  it('serializes array parameters using their declared format', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('exhaustive_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['header-string-array'] = header_string_array&.join(',')",
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['header-number-array'] = header_number_array&.join('|')",
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['header-integer-array'] = header_integer_array&.join(' ')",
+    );
+    expect(client?.contents).toContain(
+      'safe_internal_req[\'header-boolean-array\'] = header_boolean_array&.join("\\t")',
+    );
+  });
+
+  it('sends boolean and number headers as strings', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('exhaustive_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      `safe_internal_req['header-boolean'] = header_boolean&.to_s`,
+    );
+    expect(client?.contents).toContain(
+      `safe_internal_req['header-number'] = header_number&.to_s`,
+    );
+    expect(client?.contents).toContain(
+      `safe_internal_req['header-string'] = header_string\n`,
+    );
+  });
+
+  it('sends form data parameters as a form body', () => {
+    // ARRANGE
+    const service = JSON.parse(
+      JSON.stringify(require('basketry/lib/example-ir.json')),
+    );
+    for (const int of service.interfaces) {
+      for (const path of int.protocols.http) {
+        for (const method of path.methods) {
+          for (const param of method.parameters) {
+            if (param.in.value === 'query') param.in.value = 'formData';
+          }
+        }
+      }
+    }
+
+    // ACT
+    const files = generate(service, {});
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(`'factors': factors&.join(','),`);
+    expect(client?.contents).toContain(
+      'write_form_body(safe_internal_req, safe_internal_form)',
+    );
+    expect(client?.contents).not.toContain('safe_internal_uri.query');
+    expect(helpers?.contents).toContain('def write_form_body(req, fields)');
+  });
+
+  it('generates response envelope variants when enabled', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { responseEnvelopes: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      'get_widgets_with_response(request_options: request_options).body',
+    );
+    expect(client?.contents).toContain(
+      'BasketryExample::V1::HttpClientHelpers::Response[BasketryExample::V1::Widget]',
+    );
+    expect(helpers?.contents).toContain('class Response < T::Struct');
+  });
+
+  it('generates async clients when enabled', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { asyncClients: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_async_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain('class WidgetAsyncHttpClient');
+    expect(client?.contents).toContain(
+      'BasketryExample::V1::HttpClientHelpers::Future[BasketryExample::V1::Widget]',
+    );
+    expect(helpers?.contents).toContain('class Future');
+  });
+
+  it('generates fake clients when enabled', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { fakeClients: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_fake_client.rb'),
+    );
+    expect(client?.contents).toContain('class GizmoFakeClient');
+    expect(client?.contents).toContain(
+      'include BasketryExample::V1::GizmoService',
+    );
+    expect(client?.contents).toContain(
+      'sig { params(result: BasketryExample::V1::GizmosResponse).void }',
+    );
+  });
+
+  it('types lenient mappers as untyped since they fall back to the DTO', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(helpers?.contents).toContain(
+      [
+        'sig { params(dto: T.untyped).returns(T.untyped) }',
+        '    def map_dto_to_gizmo(dto)',
+      ].join('\n'),
+    );
+    expect(helpers?.contents).toContain(
+      [
+        'sig { params(gizmo: T.untyped).returns(T.untyped) }',
+        '    def map_gizmo_to_dto(gizmo)',
+      ].join('\n'),
+    );
+    expect(helpers?.contents).not.toContain('params(dto: String)');
+    expect(helpers?.contents).not.toContain('T.unsafe(gizmo)');
+  });
+
+  it('raises mapping errors when strict mapping is enabled', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { strictMapping: true },
+    });
+
+    // ASSERT
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(helpers?.contents).toContain('class MappingError < StandardError');
+    expect(helpers?.contents).toContain(
+      "id: map_property(dto, 'id', path, 'String', required: true) { |value| value.is_a?(String) ? value : raise(TypeError) },",
+    );
+    expect(helpers?.contents).not.toContain('T.unsafe(dto)');
+  });
+
+  it('maps union members by their discriminator', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: {
+        discriminators: { 'example-union': { property: 'kind' } },
+      },
+    });
+
+    // ASSERT
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(helpers?.contents).toContain(
+      "if dto.is_a?(Hash) && dto['kind'] == 'gizmo'",
+    );
+  });
+
+  it('escapes discriminators and leaves unmatched union values unmapped', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: {
+        discriminators: {
+          'example-union': {
+            property: "it's",
+            mapping: { "gizmo's": 'gizmo' },
+          },
+        },
+      },
+    });
+
+    // ASSERT
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(helpers?.contents).toContain(
+      "if dto.is_a?(Hash) && dto['it\\'s'] == 'gizmo\\'s'",
+    );
+    expect(helpers?.contents).toContain(
+      [
+        'sig { params(dto: T.untyped).returns(T.untyped) }',
+        '    def map_dto_to_example_union(dto)',
+      ].join('\n'),
+    );
+    expect(helpers?.contents).not.toContain('T.unsafe(dto)');
+  });
+
+  it('validates parameters when enabled', () => {
+    // ARRANGE
+    const service = require('basketry/lib/example-ir.json');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { validateParameters: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_violations << Violation.new(parameter: 'factors', rule: 'array-min-items', message: 'factors must have at least 2 items') if !factors.nil? && factors.length < 2",
+    );
+    expect(client?.contents).toContain(
+      'raise ValidationError.new(safe_internal_violations) unless safe_internal_violations.empty?',
+    );
+  });
+
+  it('generates pagination iterators for paged methods', () => {
+    // ARRANGE
+    const service = withPagingParameter('page', 'integer');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { pagination: {} },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def each_get_gizmos(search: nil, page: nil, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      'T::Enumerator[BasketryExample::V1::Gizmo]',
+    );
+    expect(client?.contents).toContain('page = (page || 1) + 1');
+  });
+
+  it('walks cursors read from the response body', () => {
+    // ARRANGE
+    const service = withPagingParameter('cursor', 'string', 'string');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { pagination: {} },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def each_get_gizmos(search: nil, cursor: nil, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      'cursor = safe_internal_page.next_cursor',
+    );
+    expect(client?.contents).toContain('break if cursor.nil?');
+  });
+
+  it('walks cursors read from the Link header', () => {
+    // ARRANGE
+    const service = withPagingParameter('cursor', 'string');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { pagination: {}, responseEnvelopes: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def each_get_gizmos(search: nil, cursor: nil, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      "cursor = next_link_param(safe_internal_res.headers, 'cursor')",
+    );
+  });
+
+  it('walks offsets by the number of items in each page', () => {
+    // ARRANGE
+    const service = withPagingParameter('offset', 'integer');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { pagination: {} },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def each_get_gizmos(search: nil, offset: nil, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      'offset = (offset || 0) + safe_internal_items.length',
+    );
+  });
+
+  it('does not generate iterators for methods without paging parameters', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: { pagination: {} },
+    });
+
+    // ASSERT
+    expect(files.some((file) => file.contents.includes('def each_'))).toEqual(
+      false,
+    );
+  });
+
+  it('only walks cursors that match the type of the cursor parameter', () => {
+    // ARRANGE
+    const service = withPagingParameter('cursor', 'integer', 'string');
+    const linked = withPagingParameter('cursor', 'integer');
+
+    // ACT
+    const files = generate(service, {
+      sorbetHttpClient: { pagination: {} },
+    });
+    const linkedFiles = generate(linked, {
+      sorbetHttpClient: { pagination: {}, responseEnvelopes: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const linkedClient = linkedFiles.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    expect(client?.contents).not.toContain('def each_get_gizmos');
+    expect(linkedClient?.contents).not.toContain('def each_get_gizmos');
+  });
+
+  it('accepts per-call request options on every client method', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def get_gizmos(search: nil, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      '@pipeline.call(safe_internal_uri, safe_internal_req, request_options)',
+    );
+    expect(helpers?.contents).toContain('class RequestOptions < T::Struct');
+    expect(helpers?.contents).toContain(
+      'raise CancelledError, "#{req.method} #{uri} was cancelled" if options&.cancellation&.cancelled?',
+    );
+  });
+
+  it('instruments each call with the path template when enabled', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: { instrumentation: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      "instrument(@instrumenter, RequestEvent.new(service: 'BasketryExample', interface: 'widget', method_name: 'get_widget_foo', http_method: 'GET', path: '/widgets/{id}/foo'))",
+    );
+    expect(helpers?.contents).toContain('class NotificationsInstrumenter');
+  });
+
+  it('generates a service client with an accessor for each interface', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('basketry_example_client.rb'),
+    );
+    expect(client?.contents).toContain('class BasketryExampleClient');
+    expect(client?.contents).toContain('def widgets');
+    expect(client?.contents).toContain(
+      '@widgets ||= BasketryExample::V1::WidgetHttpClient.from_config(@config)',
+    );
+  });
+
+  it('generates a client config that can be read from the environment', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(helpers?.contents).toContain('class ClientConfig < T::Struct');
+    expect(helpers?.contents).toContain(
+      'const :basic_auth, T.nilable(BasicCredentials)',
+    );
+    expect(helpers?.contents).toContain(
+      "api_key_auth: env['BASKETRY_EXAMPLE_API_KEY_AUTH'],",
+    );
+    expect(client?.contents).toContain(
+      "api_key_auth: config.api_key_auth || raise(ArgumentError, 'api_key_auth is required by WidgetHttpClient'),",
+    );
+  });
+
+  it('requests JSON and rejects empty or non-JSON responses', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('gizmo_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      "safe_internal_req['Accept'] = 'application/json'",
+    );
+    expect(client?.contents).toContain(
+      'map_dto_to_gizmos_response(read_body_as(safe_internal_res, Hash))',
+    );
+    expect(helpers?.contents).toContain('return if body.nil? || body.empty?');
+    expect(helpers?.contents).toContain(
+      'class UnexpectedBodyError < HttpClientError; end',
+    );
+  });
+
+  it('rejects malformed JSON responses with the raw body', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'));
+
+    // ASSERT
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    const readBodyAs = helpers?.contents.slice(
+      helpers.contents.indexOf('def read_body_as'),
+    );
+    expect(readBodyAs).toMatch(
+      /rescue JSON::ParserError => e\n\s*raise UnexpectedBodyError\.new\(\n(.*\n)*?\s*body: res\.body,/,
+    );
+  });
+
+  it('generates streaming variants when enabled', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: { streaming: true },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('widget_http_client.rb'),
+    );
+    const helpers = files.find((file) =>
+      file.path.includes('http_client_helpers.rb'),
+    );
+    expect(client?.contents).toContain(
+      'def stream_get_widget_foo(id:, request_options: nil, &blk)',
+    );
+    expect(client?.contents).toContain(
+      'safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options, &blk)',
+    );
+    expect(client?.contents).not.toContain('def stream_put_widget');
+    expect(helpers?.contents).toContain(
+      'http.request(req) { |res| res.read_body(&blk) if res.is_a?(Net::HTTPSuccess) }',
+    );
+  });
+
+  it('generates contract specs for each client when enabled', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: { contractSpecs: true },
+    });
+
+    // ASSERT
+    const spec = files.find((file) =>
+      file.path.includes('widget_http_client_spec.rb'),
+    );
+    expect(spec?.path.slice(0, 1)).toEqual(['spec']);
+    expect(spec?.contents).toContain(
+      'RSpec.describe BasketryExample::V1::WidgetHttpClient do',
+    );
+    expect(spec?.contents).toContain(
+      'request = stub_request(:get, "#{api_root}/v1/widgets/id/foo")',
+    );
+    expect(spec?.contents).toContain("'x-apikey' => 'api_key_auth'");
+    expect(spec?.contents).toContain('expect(request).to have_been_requested');
+    expect(spec?.contents).toContain(
+      'expect(result).to be_a(BasketryExample::V1::Widget)',
+    );
+  });
+
+  it('generates request structs for methods with many parameters', () => {
+    // ACT
+    const files = generate(require('basketry/lib/example-ir.json'), {
+      sorbetHttpClient: { requestStructs: { minParameters: 9 } },
+    });
+
+    // ASSERT
+    const client = files.find((file) =>
+      file.path.includes('exhaustive_http_client.rb'),
+    );
+    const struct = files.find((file) =>
+      file.path.includes('exhaustive_formats_request.rb'),
+    );
+    expect(struct?.contents).toContain(
+      'class ExhaustiveFormatsRequest < T::Struct',
+    );
+    expect(struct?.contents).toContain(
+      'const :string_no_format, T.nilable(String)',
+    );
+    expect(client?.contents).toContain(
+      'def send_exhaustive_formats(request, request_options: nil)',
+    );
+    expect(client?.contents).toContain(
+      'send_exhaustive_formats(BasketryExample::V1::ExhaustiveFormatsRequest.new(string_no_format: string_no_format,',
+    );
+    expect(
+      files.some((file) => file.path.includes('create_gizmo_request.rb')),
+    ).toEqual(false);
+  });
 });
+
+function withApiKeysIn(location: 'header' | 'query' | 'cookie') {
+  const service = JSON.parse(
+    JSON.stringify(require('basketry/lib/example-ir.json')),
+  );
+
+  for (const int of service.interfaces) {
+    for (const method of int.methods) {
+      for (const option of method.security) {
+        for (const scheme of option) {
+          if (scheme.type.value === 'apiKey') scheme.in.value = location;
+        }
+      }
+    }
+  }
+
+  return service;
+}
+
+function withPagingParameter(
+  name: string,
+  typeName: Primitive,
+  cursorTypeName?: Primitive,
+): Service {
+  const service: Service = JSON.parse(
+    JSON.stringify(require('basketry/lib/example-ir.json')),
+  );
+
+  const int = service.interfaces.find((i) => i.name === 'gizmo')!;
+  const method = int.methods.find((m) => m.name.value === 'getGizmos')!;
+  method.parameters.push({
+    ...method.parameters[0],
+    name: { value: name },
+    typeName: { value: typeName },
+  });
+
+  const httpMethod = int.protocols.http
+    .flatMap((path) => path.methods)
+    .find((m) => m.name.value === 'getGizmos')!;
+  httpMethod.parameters.push({
+    ...httpMethod.parameters[0],
+    name: { value: name },
+  });
+
+  if (cursorTypeName) {
+    service.types
+      .find((type) => type.name.value === 'gizmosResponse')!
+      .properties.push({
+        ...method.parameters[0],
+        name: { value: 'nextCursor' },
+        typeName: { value: cursorTypeName },
+      });
+  }
+
+  return service;
+}
@@ -1,11 +1,13 @@
 import { generateClients } from './http-client-factory';
 import { generateMapper } from './mapper-factory';
+import { generateSpecs } from './spec-factory';
 
 import { Generator } from 'basketry';
 
 const generator: Generator = (service, options) => [
   ...generateClients(service, options),
   ...generateMapper(service, options),
+  ...generateSpecs(service, options),
 ];
 
 export default generator;
@@ -1,7 +1,18 @@
-import { File, Generator, Service, Primitive, Type, Enum } from 'basketry';
+import {
+  File,
+  Generator,
+  isRequired,
+  Service,
+  Primitive,
+  Property,
+  Type,
+  TypedValue,
+  Enum,
+  Union,
+} from 'basketry';
 import { snake } from 'case';
 
-import { block, from, indent } from './utils';
+import { block, from, indent, rubyString } from './utils';
 
 import {
   buildNamespace,
@@ -11,6 +22,7 @@ import {
 import { warning } from '@basketry/sorbet/lib/warning';
 import { SorbetHttpClientOptions } from './types';
 import { buildMapperFilepath, buildMapperName } from './name-factory';
+import { buildHelpers } from './helpers-factory';
 
 export const generateMapper: Generator = (
   service,
@@ -51,49 +63,76 @@ class Builder {
       yield '';
     }
 
+    yield '# typed: strict';
+    yield '';
+
     yield* block(
       `module ${buildNamespace(undefined, this.service, this.options)}`,
 
       block(`module ${buildMapperName()}`, function* () {
+        yield 'extend T::Sig';
+        yield '';
+
         let hasWritten = false;
+        for (const helper of buildHelpers(self.service, self.options)) {
+          hasWritten ? yield '' : (hasWritten = true);
+          yield* helper;
+        }
         for (const type of self.service.types) {
           hasWritten ? yield '' : (hasWritten = true);
           const struct = self.buildFullyQualifiedTypeName(type);
           // DTO to struct
-          yield `def map_dto_to_${snake(type.name.value)}(dto)`;
-          yield* indent(function* () {
-            yield `${struct}.new(`;
-            yield* indent(
-              type.properties.map((prop, i, arr) => {
-                if (prop.isArray) {
-                  return `${buildPropertyName(prop)}: dto['${
-                    prop.name.value
-                  }']&.map { |item| ${self.buildPropCast(
-                    prop.typeName.value,
-                    prop.isPrimitive,
-                    `item`,
-                  )} }${i < arr.length - 1 ? ',' : ''}`;
-                } else {
-                  return `${buildPropertyName(prop)}: ${self.buildPropCast(
-                    prop.typeName.value,
-                    prop.isPrimitive,
-                    `dto['${prop.name.value}']`,
-                  )}${i < arr.length - 1 ? ',' : ''}`;
-                }
-              }),
-            );
-            yield ')';
-          });
-          yield 'rescue StandardError';
-          yield* indent('dto');
-          yield 'end';
+          if (self.strict) {
+            yield* self.buildStrictDtoToStruct(type);
+          } else {
+            // Lenient mappers return their input when it cannot be mapped, so
+            // their signatures cannot promise the mapped type
+            yield 'sig { params(dto: T.untyped).returns(T.untyped) }';
+            yield `def map_dto_to_${snake(type.name.value)}(dto)`;
+            yield* indent(function* () {
+              yield `${struct}.new(`;
+              yield* indent(
+                type.properties.map((prop, i, arr) => {
+                  if (prop.isArray) {
+                    return `${buildPropertyName(prop)}: dto['${
+                      prop.name.value
+                    }']&.map { |item| ${self.buildPropCast(
+                      prop.typeName.value,
+                      prop.isPrimitive,
+                      `item`,
+                    )} }${i < arr.length - 1 ? ',' : ''}`;
+                  } else {
+                    return `${buildPropertyName(prop)}: ${self.buildPropCast(
+                      prop.typeName.value,
+                      prop.isPrimitive,
+                      `dto['${prop.name.value}']`,
+                      true,
+                    )}${i < arr.length - 1 ? ',' : ''}`;
+                  }
+                }),
+              );
+              yield ')';
+            });
+            yield 'rescue StandardError';
+            yield* indent('dto');
+            yield 'end';
+          }
 
           // struct to DTO
           yield '';
+          yield self.strict
+            ? `sig { params(${snake(
+                type.name.value,
+              )}: T.nilable(${struct})).returns(T.nilable(T::Hash[Symbol, T.untyped])) }`
+            : `sig { params(${snake(
+                type.name.value,
+              )}: T.untyped).returns(T.untyped) }`;
           yield `def map_${snake(type.name.value)}_to_dto(${snake(
             type.name.value,
           )})`;
           yield* indent(function* () {
+            yield `return if ${snake(type.name.value)}.nil?`;
+            yield '';
             yield `{`;
             yield* indent(
               type.properties.map((prop) => {
@@ -118,30 +157,55 @@ class Builder {
             );
             yield '}.compact';
           });
-          yield 'rescue StandardError';
-          yield* indent(snake(type.name.value));
+          if (!self.strict) {
+            yield 'rescue StandardError';
+            yield* indent(snake(type.name.value));
+          }
           yield 'end';
         }
         for (const e of self.service.enums) {
           hasWritten ? yield '' : (hasWritten = true);
+          const enumName = self.buildFullyQualifiedTypeName(e);
           // DTO to enum
-          yield `def map_dto_to_${snake(e.name.value)}(dto)`;
-          yield* indent(
-            `${self.buildFullyQualifiedTypeName(e)}.deserialize(dto)`,
-          );
-          yield 'rescue StandardError';
-          yield* indent('dto');
-          yield 'end';
+          if (self.strict) {
+            yield `sig { params(dto: T.untyped, path: String).returns(${enumName}) }`;
+            yield `def map_dto_to_${snake(e.name.value)}(dto, path = '$')`;
+            yield* indent(`${enumName}.deserialize(dto)`);
+            yield 'rescue KeyError';
+            yield* indent(
+              `raise MappingError.new(type_name: '${enumName}', path: path, value: dto)`,
+            );
+            yield 'end';
+          } else {
+            yield 'sig { params(dto: T.untyped).returns(T.untyped) }';
+            yield `def map_dto_to_${snake(e.name.value)}(dto)`;
+            yield* indent(`${enumName}.deserialize(dto)`);
+            yield 'rescue StandardError';
+            yield* indent('dto');
+            yield 'end';
+          }
           // enum to DTO
           yield '';
+          yield self.strict
+            ? `sig { params(enum: T.nilable(${enumName})).returns(T.nilable(String)) }`
+            : 'sig { params(enum: T.untyped).returns(T.untyped) }';
           yield `def map_${snake(e.name.value)}_to_dto(enum)`;
           yield* indent(`enum&.serialize`);
-          yield 'rescue StandardError';
-          yield* indent('enum');
+          if (!self.strict) {
+            yield 'rescue StandardError';
+            yield* indent('enum');
+          }
           yield 'end';
         }
+        for (const union of self.service.unions) {
+          hasWritten ? yield '' : (hasWritten = true);
+          yield* self.buildDtoToUnion(union);
+          yield '';
+          yield* self.buildUnionToDto(union);
+        }
         for (const primitive of self.castPrimitive) {
           hasWritten ? yield '' : (hasWritten = true);
+          yield 'sig { params(param: T.untyped).returns(T.untyped) }';
           yield `def cast_${snake(primitive)}(param)`;
           yield* indent(
             `${self.buildPrimitiveCast(primitive, 'param')} if !param.nil?`,
@@ -152,6 +216,7 @@ class Builder {
         }
         for (const primitive of self.castPrimitiveArray) {
           hasWritten ? yield '' : (hasWritten = true);
+          yield 'sig { params(param: T.untyped).returns(T.untyped) }';
           yield `def cast_${snake(primitive)}_array(param)`;
           yield* indent(
             `param&.map { |item| ${self.buildPrimitiveCast(
@@ -168,6 +233,316 @@ class Builder {
     yield '';
   }
 
+  private get strict(): boolean {
+    return !!this.options?.sorbetHttpClient?.strictMapping;
+  }
+
+  private *buildStrictDtoToStruct(type: Type): Iterable<string> {
+    const self = this;
+    const struct = this.buildFullyQualifiedTypeName(type);
+
+    yield `sig { params(dto: T.untyped, path: String).returns(${struct}) }`;
+    yield* block(
+      `def map_dto_to_${snake(type.name.value)}(dto, path = '$')`,
+      function* () {
+        yield `raise MappingError.new(type_name: '${struct}', path: path, value: dto) unless dto.is_a?(Hash)`;
+        yield '';
+        yield `${struct}.new(`;
+        yield* indent(
+          type.properties.map(
+            (prop, i, arr) =>
+              `${buildPropertyName(prop)}: ${self.buildStrictPropMapping(
+                prop,
+              )}${i < arr.length - 1 ? ',' : ''}`,
+          ),
+        );
+        yield ')';
+      },
+    );
+  }
+
+  /**
+   * Builds a `map_property` call that reads a property from the `dto` and
+   * raises a MappingError with its JSON path if it is missing (when required)
+   * or cannot be mapped.
+   */
+  private buildStrictPropMapping(prop: Property): string {
+    const typeName = buildTypeName({
+      type: prop,
+      service: this.service,
+      options: this.options,
+    });
+    const required = isRequired(prop) ? ', required: true' : '';
+
+    let mapping: string;
+    if (prop.isArray) {
+      const itemTypeName = buildTypeName({
+        type: prop,
+        service: this.service,
+        options: this.options,
+        skipArrayify: true,
+      });
+      mapping = `{ |value, value_path| map_items(value, value_path, '${itemTypeName}') ${this.buildStrictValueMapping(
+        prop,
+        'item',
+      )} }`;
+    } else {
+      mapping = this.buildStrictValueMapping(prop, 'value');
+    }
+
+    return `map_property(dto, '${prop.name.value}', path, '${typeName}'${required}) ${mapping}`;
+  }
+
+  private buildStrictValueMapping(prop: Property, name: string): string {
+    if (prop.isPrimitive) {
+      return `{ |${name}| ${this.buildStrictPrimitiveCast(
+        prop.typeName.value,
+        name,
+      )} }`;
+    } else {
+      return `{ |${name}, ${name}_path| map_dto_to_${snake(
+        prop.typeName.value,
+      )}(${name}, ${name}_path) }`;
+    }
+  }
+
+  /**
+   * Casts a primitive JSON value to its Sorbet type. Values of the wrong JSON
+   * type raise, which `map_value` reports as a MappingError.
+   */
+  private buildStrictPrimitiveCast(typeName: string, value: string): string {
+    const override = this.options?.sorbet?.types?.[typeName];
+    if (override) return `${override}(${value}.to_s)`;
+
+    const condition = this.buildJsonTypeCondition(typeName as Primitive, value);
+    let casted: string;
+    switch (typeName as Primitive) {
+      case 'date':
+      case 'date-time':
+      case 'float':
+      case 'double':
+        casted = this.buildPrimitiveCast(typeName as Primitive, value);
+        break;
+      default:
+        casted = value;
+    }
+
+    return condition === 'true'
+      ? casted
+      : `${condition} ? ${casted} : raise(TypeError)`;
+  }
+
+  /** Builds a condition that is true when a parsed JSON value has the JSON type of the primitive */
+  private buildJsonTypeCondition(primitive: Primitive, value: string): string {
+    switch (primitive) {
+      case 'string':
+      case 'date':
+      case 'date-time':
+        return `${value}.is_a?(String)`;
+      case 'number':
+      case 'float':
+      case 'double':
+        return `${value}.is_a?(Numeric)`;
+      case 'integer':
+      case 'long':
+        return `${value}.is_a?(Integer)`;
+      case 'boolean':
+        return `[true, false].include?(${value})`;
+      case 'null':
+        return `${value}.nil?`;
+      default:
+        return 'true';
+    }
+  }
+
+  private buildUnionTypeName(union: Union): string {
+    return buildTypeName({
+      type: {
+        typeName: union.name,
+        isPrimitive: false,
+        isArray: false,
+        rules: [],
+      },
+      service: this.service,
+      options: this.options,
+    });
+  }
+
+  /**
+   * Maps a DTO to the first member of the union that it matches. Objects are
+   * matched by the value of their discriminator property when one is
+   * configured for the union and by their required properties otherwise.
+   */
+  private *buildDtoToUnion(union: Union): Iterable<string> {
+    const self = this;
+    const typeName = this.buildUnionTypeName(union);
+    const name = snake(union.name.value);
+
+    const branches = union.members.map((member): [string, string] => [
+      this.buildUnionMemberCondition(union, member),
+      this.buildUnionMemberMapping(member),
+    ]);
+
+    if (this.strict) {
+      yield `sig { params(dto: T.untyped, path: String).returns(${typeName}) }`;
+      yield `def map_dto_to_${name}(dto, path = '$')`;
+    } else {
+      yield 'sig { params(dto: T.untyped).returns(T.untyped) }';
+      yield `def map_dto_to_${name}(dto)`;
+    }
+    yield* indent(function* () {
+      for (const [i, [condition, mapping]] of branches.entries()) {
+        yield `${i === 0 ? 'if' : 'elsif'} ${condition}`;
+        yield* indent(mapping);
+      }
+      yield 'else';
+      yield* indent(
+        self.strict
+          ? `raise MappingError.new(type_name: '${typeName}', path: path, value: dto)`
+          : 'dto',
+      );
+      yield 'end';
+    });
+    yield 'end';
+  }
+
+  private buildUnionMemberCondition(
+    union: Union,
+    member: TypedValue,
+    value = 'dto',
+  ): string {
+    const typeName = member.typeName.value;
+
+    if (member.isArray) {
+      const itemCondition = this.buildUnionMemberCondition(
+        union,
+        { ...member, isArray: false },
+        'item',
+      );
+      return `${value}.is_a?(Array) && ${value}.all? { |item| ${itemCondition} }`;
+    }
+
+    if (member.isPrimitive) {
+      if (this.options?.sorbet?.types?.[typeName]) return 'true';
+      return this.buildJsonTypeCondition(typeName as Primitive, value);
+    }
+
+    const e = this.service.enums.find((x) => x.name.value === typeName);
+    if (e) {
+      return `${value}.is_a?(String) && ${this.buildFullyQualifiedTypeName(
+        e,
+      )}.has_serialized?(${value})`;
+    }
+
+    const discriminator =
+      this.options?.sorbetHttpClient?.discriminators?.[union.name.value];
+    if (discriminator) {
+      const values = discriminator.mapping
+        ? Object.keys(discriminator.mapping).filter(
+            (key) => discriminator.mapping?.[key] === typeName,
+          )
+        : [typeName];
+      const property = `${value}[${rubyString(discriminator.property)}]`;
+      return values.length === 1
+        ? `${value}.is_a?(Hash) && ${property} == ${rubyString(values[0])}`
+        : `${value}.is_a?(Hash) && [${values
+            .map(rubyString)
+            .join(', ')}].include?(${property})`;
+    }
+
+    const type = this.service.types.find((t) => t.name.value === typeName);
+    const required = (type?.properties ?? [])
+      .filter((prop) => isRequired(prop))
+      .map((prop) => `'${prop.name.value}'`);
+
+    if (!required.length) return `${value}.is_a?(Hash)`;
+    if (required.length === 1) {
+      return `${value}.is_a?(Hash) && ${value}.key?(${required[0]})`;
+    }
+    return `${value}.is_a?(Hash) && [${required.join(
+      ', ',
+    )}].all? { |key| ${value}.key?(key) }`;
+  }
+
+  private buildUnionMemberMapping(member: TypedValue): string {
+    const typeName = member.typeName.value;
+
+    const map = (value: string, path: string) => {
+      if (member.isPrimitive) {
+        return this.buildPropCast(typeName, true, value);
+      }
+      return this.strict
+        ? `map_dto_to_${snake(typeName)}(${value}, ${path})`
+        : `map_dto_to_${snake(typeName)}(${value})`;
+    };
+
+    if (!member.isArray) return map('dto', 'path');
+
+    const item = map('item', 'item_path');
+    if (this.strict) {
+      const itemTypeName = buildTypeName({
+        type: member,
+        service: this.service,
+        options: this.options,
+        skipArrayify: true,
+      });
+      const params = member.isPrimitive ? 'item' : 'item, item_path';
+      return `map_items(dto, path, '${itemTypeName}') { |${params}| ${item} }`;
+    }
+    return item === 'item' ? 'dto' : `dto.map { |item| ${item} }`;
+  }
+
+  private *buildUnionToDto(union: Union): Iterable<string> {
+    const typeName = this.buildUnionTypeName(union);
+
+    const branches: [string, string][] = [];
+    for (const member of union.members) {
+      if (member.isArray) continue;
+      const e = this.service.enums.find(
+        (x) => x.name.value === member.typeName.value,
+      );
+      const t = this.service.types.find(
+        (x) => x.name.value === member.typeName.value,
+      );
+      if (e) {
+        branches.push([
+          this.buildFullyQualifiedTypeName(e),
+          `map_${snake(e.name.value)}_to_dto(value)`,
+        ]);
+      } else if (t) {
+        branches.push([
+          this.buildFullyQualifiedTypeName(t),
+          `map_${snake(t.name.value)}_to_dto(value)`,
+        ]);
+      } else if (member.typeName.value === 'date-time') {
+        branches.unshift([
+          'DateTime',
+          buildPrimitiveToDto('date-time', 'value', '.'),
+        ]);
+      } else if (member.typeName.value === 'date') {
+        branches.push(['Date', buildPrimitiveToDto('date', 'value', '.')]);
+      }
+    }
+
+    yield `sig { params(value: T.nilable(${typeName})).returns(T.untyped) }`;
+    yield `def map_${snake(union.name.value)}_to_dto(value)`;
+    yield* indent(function* () {
+      if (!branches.length) {
+        yield 'value';
+        return;
+      }
+      yield 'case value';
+      for (const [type, mapping] of branches) {
+        yield `when ${type}`;
+        yield* indent(mapping);
+      }
+      yield 'else';
+      yield* indent('value');
+      yield 'end';
+    });
+    yield 'end';
+  }
+
   private buildFullyQualifiedTypeName(type: Type | Enum) {
     return buildTypeName({
       type: {
@@ -186,6 +561,7 @@ class Builder {
     typeName: string,
     isPrimitive: boolean,
     baseCase: string,
+    nilable = false,
   ): string {
     if (isPrimitive) {
       const override = this.options?.sorbet?.types?.[typeName];
@@ -200,6 +576,10 @@ class Builder {
       } else {
         return `${baseCase}.is_a?(String) ? ${casted} : ${baseCase}`;
       }
+    } else if (nilable) {
+      return `${baseCase}&.then { |value| map_dto_to_${snake(
+        typeName,
+      )}(value) }`;
     } else {
       return `map_dto_to_${snake(typeName)}(${baseCase})`;
     }
@@ -211,14 +591,7 @@ class Builder {
     baseCase: string,
   ): string {
     if (isPrimitive) {
-      switch (typeName as Primitive) {
-        case 'date':
-          return `${baseCase}&.to_s`;
-        case 'date-time':
-          return `${baseCase}&.utc&.iso8601`;
-        default:
-          return baseCase;
-      }
+      return buildPrimitiveToDto(typeName as Primitive, baseCase);
     } else {
       return `map_${snake(typeName)}_to_dto(${baseCase})`;
     }
@@ -251,3 +624,23 @@ class Builder {
     }
   }
 }
+
+/**
+ * Builds the expression that converts a primitive value to its JSON/wire
+ * representation. Pass `.` as the navigation operator when the value is known
+ * to be non-nil.
+ */
+export function buildPrimitiveToDto(
+  primitive: Primitive,
+  baseCase: string,
+  nav: '.' | '&.' = '&.',
+): string {
+  switch (primitive) {
+    case 'date':
+      return `${baseCase}${nav}to_s`;
+    case 'date-time':
+      return `${baseCase}${nav}utc${nav}iso8601`;
+    default:
+      return baseCase;
+  }
+}
@@ -1,4 +1,4 @@
-import { Interface, Service } from 'basketry';
+import { Interface, Method, Service } from 'basketry';
 import { pascal, snake } from 'case';
 
 import { buildNamespace } from '@basketry/sorbet/lib/name-factory';
@@ -27,6 +27,83 @@ export function buildClientFilepath(
   ];
 }
 
+export function buildAsyncClientName(int: Interface): string {
+  return pascal(`${int.name}_async_http_client`);
+}
+export function buildAsyncClientFilepath(
+  int: Interface,
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string[] {
+  const namespace = buildClientNamespace(service, options);
+
+  return [
+    ...namespace.split('::').map(snake),
+    `${snake(buildAsyncClientName(int))}.rb`,
+  ];
+}
+
+export function buildFakeClientName(int: Interface): string {
+  return pascal(`${int.name}_fake_client`);
+}
+export function buildFakeClientFilepath(
+  int: Interface,
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string[] {
+  const namespace = buildClientNamespace(service, options);
+
+  return [
+    ...namespace.split('::').map(snake),
+    `${snake(buildFakeClientName(int))}.rb`,
+  ];
+}
+
+export function buildServiceClientName(service: Service): string {
+  return pascal(`${service.title.value}_client`);
+}
+export function buildServiceClientFilepath(
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string[] {
+  const namespace = buildClientNamespace(service, options);
+
+  return [
+    ...namespace.split('::').map(snake),
+    `${snake(buildServiceClientName(service))}.rb`,
+  ];
+}
+
+export function buildRequestStructName(method: Method): string {
+  return pascal(`${method.name.value}_request`);
+}
+export function buildRequestStructFilepath(
+  method: Method,
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string[] {
+  const namespace = buildClientNamespace(service, options);
+
+  return [
+    ...namespace.split('::').map(snake),
+    `${snake(buildRequestStructName(method))}.rb`,
+  ];
+}
+
+export function buildSpecFilepath(
+  int: Interface,
+  service: Service,
+  options?: SorbetHttpClientOptions,
+): string[] {
+  const namespace = buildClientNamespace(service, options);
+
+  return [
+    'spec',
+    ...namespace.split('::').map(snake),
+    `${snake(buildClientName(int))}_spec.rb`,
+  ];
+}
+
 export function buildMapperName(): string {
   return pascal(`HttpClientHelpers`);
 }
@@ -0,0 +1,82 @@
+import { Method, Parameter, Property, Service } from 'basketry';
+
+import { SorbetHttpClientOptions } from './types';
+
+export type Pagination = {
+  /**
+   * How the parameter for the next page is computed:
+   * - `cursor`: read from a property of the response body
+   * - `link`: read from the query of the `rel="next"` URL in the `Link` header
+   * - `page`: incremented by one
+   * - `offset`: advanced by the number of items in the current page
+   */
+  strategy: 'cursor' | 'link' | 'page' | 'offset';
+  parameter: Parameter;
+  items: Property;
+  cursor?: Property;
+};
+
+/**
+ * Detects whether a method returns a page of items that can be walked using
+ * the configured pagination conventions. Returns `undefined` when pagination
+ * is not enabled or the method does not follow any of the conventions.
+ */
+export function getPagination(
+  service: Service,
+  method: Method,
+  options?: SorbetHttpClientOptions,
+): Pagination | undefined {
+  const pagination = options?.sorbetHttpClient?.pagination;
+  if (!pagination || !method.returnType) return;
+  if (method.returnType.isPrimitive || method.returnType.isArray) return;
+
+  const typeName = method.returnType.typeName.value;
+  const type = service.types.find((t) => t.name.value === typeName);
+  if (!type) return;
+
+  const items = type.properties.find(
+    (prop) =>
+      prop.name.value === (pagination.itemsProperty ?? 'data') && prop.isArray,
+  );
+  if (!items) return;
+
+  const findParameter = (name: string) =>
+    method.parameters.find(
+      (param) => param.name.value === name && !param.isArray,
+    );
+
+  const cursorParam = findParameter(pagination.cursorParameter ?? 'cursor');
+  if (cursorParam) {
+    const cursor = type.properties.find(
+      (prop) =>
+        prop.name.value === (pagination.cursorProperty ?? 'nextCursor') &&
+        !prop.isArray,
+    );
+
+    // The next cursor is passed back as the parameter, so both must share a
+    // type for the next request to pass the parameter's runtime sig check.
+    // Cursors read from the `Link` header are always strings.
+    if (cursor) {
+      if (
+        cursor.typeName.value === cursorParam.typeName.value &&
+        cursor.isPrimitive === cursorParam.isPrimitive
+      ) {
+        return { strategy: 'cursor', parameter: cursorParam, items, cursor };
+      }
+    } else if (
+      options?.sorbetHttpClient?.responseEnvelopes &&
+      cursorParam.isPrimitive &&
+      cursorParam.typeName.value === 'string'
+    ) {
+      return { strategy: 'link', parameter: cursorParam, items };
+    }
+  }
+
+  const pageParam = findParameter(pagination.pageParameter ?? 'page');
+  if (pageParam) return { strategy: 'page', parameter: pageParam, items };
+
+  const offsetParam = findParameter(pagination.offsetParameter ?? 'offset');
+  if (offsetParam) return { strategy: 'offset', parameter: offsetParam, items };
+
+  return;
+}
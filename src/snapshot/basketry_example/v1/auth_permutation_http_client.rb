@@ -21,30 +21,95 @@ module BasketryExample::V1
     include BasketryExample::V1::AuthPermutationService
     include BasketryExample::V1::HttpClientHelpers
 
-    sig { params(api_root: String, basic_auth: String, alternate_basic_auth: String, api_key_auth: String, oauth2_auth: String, alternate_api_key_auth: String).void }
-    def initialize(api_root:, basic_auth:, alternate_basic_auth:, api_key_auth:, oauth2_auth:, alternate_api_key_auth:)
+    sig { params(api_root: String, base_path: String, basic_auth: T.nilable(BasketryExample::V1::HttpClientHelpers::BasicCredentials), alternate_basic_auth: T.nilable(BasketryExample::V1::HttpClientHelpers::BasicCredentials), api_key_auth: T.nilable(String), oauth2_auth: T.nilable(BasketryExample::V1::HttpClientHelpers::OAuth2Token), alternate_api_key_auth: T.nilable(String), transport: BasketryExample::V1::HttpClientHelpers::Transport, middleware: T::Array[BasketryExample::V1::HttpClientHelpers::Middleware], retry_policy: T.nilable(BasketryExample::V1::HttpClientHelpers::RetryPolicy)).void }
+    def initialize(api_root:, base_path: '/v1', basic_auth: nil, alternate_basic_auth: nil, api_key_auth: nil, oauth2_auth: nil, alternate_api_key_auth: nil, transport: NetHttpTransport.new, middleware: [], retry_policy: nil)
       @api_root = api_root
+      @base_path = base_path
       @basic_auth = basic_auth
       @alternate_basic_auth = alternate_basic_auth
       @api_key_auth = api_key_auth
       @oauth2_auth = oauth2_auth
       @alternate_api_key_auth = alternate_api_key_auth
+      @pipeline = T.let(
+        RequestPipeline.new(transport: transport, middleware: middleware, retry_policy: retry_policy),
+        RequestPipeline
+      )
     end
 
-    sig { override.void }
-    def all_auth_schemes
-      safe_internal_uri = URI("#{@api_root}/v1/authPermutations")
+    # Builds a client from the configuration shared by every client of the service
+    sig { params(config: BasketryExample::V1::HttpClientHelpers::ClientConfig).returns(BasketryExample::V1::AuthPermutationHttpClient) }
+    def self.from_config(config)
+      new(
+        api_root: config.api_root,
+        base_path: config.base_path,
+        basic_auth: config.basic_auth,
+        alternate_basic_auth: config.alternate_basic_auth,
+        api_key_auth: config.api_key_auth,
+        oauth2_auth: config.oauth2_auth,
+        alternate_api_key_auth: config.alternate_api_key_auth,
+        transport: config.transport,
+        middleware: config.middleware,
+        retry_policy: config.retry_policy,
+      )
+    end
+
+    sig do
+      override.params(
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
+      ).void
+    end
+    def all_auth_schemes(request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/authPermutations")
+      safe_internal_auth = if !@basic_auth.nil?
+        [:basic_auth]
+      elsif !@alternate_basic_auth.nil?
+        [:alternate_basic_auth]
+      elsif !@api_key_auth.nil?
+        [:api_key_auth]
+      elsif !@oauth2_auth.nil?
+        [:oauth2_auth]
+      else
+        raise ArgumentError, 'No configured credentials satisfy the security requirements of all_auth_schemes'
+      end
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
-      safe_internal_req['x-apikey'] = @api_key_auth
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      safe_internal_req['Authorization'] = basic_authorization(T.must(@basic_auth)) if safe_internal_auth.include?(:basic_auth)
+      safe_internal_req['Authorization'] = basic_authorization(T.must(@alternate_basic_auth)) if safe_internal_auth.include?(:alternate_basic_auth)
+      safe_internal_req['x-apikey'] = T.must(@api_key_auth) if safe_internal_auth.include?(:api_key_auth)
+      safe_internal_req['Authorization'] = bearer_authorization(T.must(@oauth2_auth)) if safe_internal_auth.include?(:oauth2_auth)
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
 
-    sig { override.void }
-    def combo_auth_schemes
-      safe_internal_uri = URI("#{@api_root}/v1/authPermutations")
+    sig do
+      override.params(
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
+      ).void
+    end
+    def combo_auth_schemes(request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/authPermutations")
+      safe_internal_auth = if !@basic_auth.nil? && !@api_key_auth.nil?
+        [:basic_auth, :api_key_auth]
+      elsif !@basic_auth.nil? && !@alternate_api_key_auth.nil?
+        [:basic_auth, :alternate_api_key_auth]
+      elsif !@alternate_basic_auth.nil? && !@oauth2_auth.nil?
+        [:alternate_basic_auth, :oauth2_auth]
+      else
+        raise ArgumentError, 'No configured credentials satisfy the security requirements of combo_auth_schemes'
+      end
+      safe_internal_uri.query = URI.encode_www_form(
+        {
+          'apikey': (@alternate_api_key_auth if safe_internal_auth.include?(:alternate_api_key_auth)),
+        }.compact
+      )
       safe_internal_req = Net::HTTP::Put.new(safe_internal_uri)
-      safe_internal_req['x-apikey'] = @api_key_auth
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      safe_internal_req['Authorization'] = basic_authorization(T.must(@basic_auth)) if safe_internal_auth.include?(:basic_auth)
+      safe_internal_req['x-apikey'] = T.must(@api_key_auth) if safe_internal_auth.include?(:api_key_auth)
+      safe_internal_req['Authorization'] = basic_authorization(T.must(@alternate_basic_auth)) if safe_internal_auth.include?(:alternate_basic_auth)
+      safe_internal_req['Authorization'] = bearer_authorization(T.must(@oauth2_auth)) if safe_internal_auth.include?(:oauth2_auth)
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
   end
 end
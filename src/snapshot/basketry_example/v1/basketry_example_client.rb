@@ -0,0 +1,52 @@
+# This code was generated by @basketry/sorbet-http-client@{{version}}
+#
+# Changes to this file may cause incorrect behavior and will be lost if
+# the code is regenerated.
+#
+# To make changes to the contents of this file:
+# 1. Edit source/path.ext
+# 2. Run the Basketry CLI
+#
+# About Basketry: https://github.com/basketry/basketry/wiki
+# About @basketry/sorbet-http-client: https://github.com/basketry/sorbet-http-client#readme
+
+# frozen_string_literal: true
+
+# typed: strict
+
+# Provides a client for each interface of the service. The clients share a
+# single configuration and are built the first time that they are used.
+module BasketryExample::V1
+  class BasketryExampleClient
+    extend T::Sig
+
+    sig { params(config: BasketryExample::V1::HttpClientHelpers::ClientConfig).void }
+    def initialize(config:)
+      @config = config
+      @auth_permutations = T.let(nil, T.nilable(BasketryExample::V1::AuthPermutationHttpClient))
+      @exhaustives = T.let(nil, T.nilable(BasketryExample::V1::ExhaustiveHttpClient))
+      @gizmos = T.let(nil, T.nilable(BasketryExample::V1::GizmoHttpClient))
+      @widgets = T.let(nil, T.nilable(BasketryExample::V1::WidgetHttpClient))
+    end
+
+    sig { returns(BasketryExample::V1::AuthPermutationHttpClient) }
+    def auth_permutations
+      @auth_permutations ||= BasketryExample::V1::AuthPermutationHttpClient.from_config(@config)
+    end
+
+    sig { returns(BasketryExample::V1::ExhaustiveHttpClient) }
+    def exhaustives
+      @exhaustives ||= BasketryExample::V1::ExhaustiveHttpClient.from_config(@config)
+    end
+
+    sig { returns(BasketryExample::V1::GizmoHttpClient) }
+    def gizmos
+      @gizmos ||= BasketryExample::V1::GizmoHttpClient.from_config(@config)
+    end
+
+    sig { returns(BasketryExample::V1::WidgetHttpClient) }
+    def widgets
+      @widgets ||= BasketryExample::V1::WidgetHttpClient.from_config(@config)
+    end
+  end
+end
@@ -21,9 +21,26 @@ module BasketryExample::V1
     include BasketryExample::V1::ExhaustiveService
     include BasketryExample::V1::HttpClientHelpers
 
-    sig { params(api_root: String).void }
-    def initialize(api_root:)
+    sig { params(api_root: String, base_path: String, transport: BasketryExample::V1::HttpClientHelpers::Transport, middleware: T::Array[BasketryExample::V1::HttpClientHelpers::Middleware], retry_policy: T.nilable(BasketryExample::V1::HttpClientHelpers::RetryPolicy)).void }
+    def initialize(api_root:, base_path: '/v1', transport: NetHttpTransport.new, middleware: [], retry_policy: nil)
       @api_root = api_root
+      @base_path = base_path
+      @pipeline = T.let(
+        RequestPipeline.new(transport: transport, middleware: middleware, retry_policy: retry_policy),
+        RequestPipeline
+      )
+    end
+
+    # Builds a client from the configuration shared by every client of the service
+    sig { params(config: BasketryExample::V1::HttpClientHelpers::ClientConfig).returns(BasketryExample::V1::ExhaustiveHttpClient) }
+    def self.from_config(config)
+      new(
+        api_root: config.api_root,
+        base_path: config.base_path,
+        transport: config.transport,
+        middleware: config.middleware,
+        retry_policy: config.retry_policy,
+      )
     end
 
     sig do
@@ -36,16 +53,17 @@ module BasketryExample::V1
         integer_int64: T.nilable(Integer),
         number_no_format: T.nilable(Numeric),
         number_float: T.nilable(Float),
-        number_double: T.nilable(Float)
+        number_double: T.nilable(Float),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).void
     end
-    def exhaustive_formats(string_no_format: nil, string_date: nil, string_date_time: nil, integer_no_format: nil, integer_int32: nil, integer_int64: nil, number_no_format: nil, number_float: nil, number_double: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/exhaustive")
+    def exhaustive_formats(string_no_format: nil, string_date: nil, string_date_time: nil, integer_no_format: nil, integer_int32: nil, integer_int64: nil, number_no_format: nil, number_float: nil, number_double: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/exhaustive")
       safe_internal_uri.query = URI.encode_www_form(
         {
           'string-no-format': string_no_format,
-          'string-date': string_date,
-          'string-date-time': string_date_time,
+          'string-date': string_date&.to_s,
+          'string-date-time': string_date_time&.utc&.iso8601,
           'integer-no-format': integer_no_format,
           'integer-int32': integer_int32,
           'integer-int64': integer_int64,
@@ -55,7 +73,9 @@ module BasketryExample::V1
         }.compact
       )
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
 
     sig do
@@ -90,38 +110,44 @@ module BasketryExample::V1
         header_number_array: T.nilable(T::Array[Numeric]),
         header_integer_array: T.nilable(T::Array[Integer]),
         header_boolean_array: T.nilable(T::Array[T::Boolean]),
-        body: T.nilable(BasketryExample::V1::Types::ExhaustiveParamsBody)
+        body: T.nilable(BasketryExample::V1::Types::ExhaustiveParamsBody),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).void
     end
-    def exhaustive_params(path_string:, path_enum:, path_number:, path_integer:, path_boolean:, path_string_array:, path_enum_array:, path_number_array:, path_integer_array:, path_boolean_array:, query_string: nil, query_enum: nil, query_number: nil, query_integer: nil, query_boolean: nil, query_string_array: nil, query_enum_array: nil, query_number_array: nil, query_integer_array: nil, query_boolean_array: nil, header_string: nil, header_enum: nil, header_number: nil, header_integer: nil, header_boolean: nil, header_string_array: nil, header_enum_array: nil, header_number_array: nil, header_integer_array: nil, header_boolean_array: nil, body: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/exhaustive/#{path_string}/#{path_enum}/#{path_number}/#{path_integer}/#{path_boolean}/#{path_string_array}/#{path_enum_array}/#{path_number_array}/#{path_integer_array}/#{path_boolean_array}")
+    def exhaustive_params(path_string:, path_enum:, path_number:, path_integer:, path_boolean:, path_string_array:, path_enum_array:, path_number_array:, path_integer_array:, path_boolean_array:, query_string: nil, query_enum: nil, query_number: nil, query_integer: nil, query_boolean: nil, query_string_array: nil, query_enum_array: nil, query_number_array: nil, query_integer_array: nil, query_boolean_array: nil, header_string: nil, header_enum: nil, header_number: nil, header_integer: nil, header_boolean: nil, header_string_array: nil, header_enum_array: nil, header_number_array: nil, header_integer_array: nil, header_boolean_array: nil, body: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/exhaustive/#{encode_path_segment(path_string)}/#{encode_path_segment(map_exhaustive_params_path_enum_to_dto(path_enum))}/#{encode_path_segment(path_number)}/#{encode_path_segment(path_integer)}/#{encode_path_segment(path_boolean)}/#{path_string_array.map { |item| encode_path_segment(item) }.join(',')}/#{path_enum_array.map { |item| encode_path_segment(map_exhaustive_params_path_enum_array_to_dto(item)) }.join('%7C')}/#{path_number_array.map { |item| encode_path_segment(item) }.join('%20')}/#{path_integer_array.map { |item| encode_path_segment(item) }.join('%09')}/#{path_boolean_array.map { |item| encode_path_segment(item) }.join(',')}")
       safe_internal_uri.query = URI.encode_www_form(
         {
           'query-string': query_string,
-          'query-enum': query_enum,
+          'query-enum': map_exhaustive_params_query_enum_to_dto(query_enum),
           'query-number': query_number,
           'query-integer': query_integer,
           'query-boolean': query_boolean,
-          'query-string-array': query_string_array,
-          'query-enum-array': query_enum_array,
-          'query-number-array': query_number_array,
-          'query-integer-array': query_integer_array,
-          'query-boolean-array': query_boolean_array,
+          'query-string-array': query_string_array&.join(','),
+          'query-enum-array': query_enum_array&.map { |item| map_exhaustive_params_query_enum_array_to_dto(item) }&.join(','),
+          'query-number-array': query_number_array&.join(','),
+          'query-integer-array': query_integer_array&.join(','),
+          'query-boolean-array': query_boolean_array&.join(','),
         }.compact
       )
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
       safe_internal_req['header-string'] = header_string
-      safe_internal_req['header-enum'] = header_enum
-      safe_internal_req['header-number'] = header_number
-      safe_internal_req['header-integer'] = header_integer
-      safe_internal_req['header-boolean'] = header_boolean
-      safe_internal_req['header-string-array'] = header_string_array
-      safe_internal_req['header-enum-array'] = header_enum_array
-      safe_internal_req['header-number-array'] = header_number_array
-      safe_internal_req['header-integer-array'] = header_integer_array
-      safe_internal_req['header-boolean-array'] = header_boolean_array
-      safe_internal_req.body = map_exhaustive_params_body_to_dto(body).to_s if !body.nil?
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      safe_internal_req['header-enum'] = map_exhaustive_params_header_enum_to_dto(header_enum)
+      safe_internal_req['header-number'] = header_number&.to_s
+      safe_internal_req['header-integer'] = header_integer&.to_s
+      safe_internal_req['header-boolean'] = header_boolean&.to_s
+      safe_internal_req['header-string-array'] = header_string_array&.join(',')
+      safe_internal_req['header-enum-array'] = header_enum_array&.map { |item| map_exhaustive_params_header_enum_array_to_dto(item) }&.join(',')
+      safe_internal_req['header-number-array'] = header_number_array&.join('|')
+      safe_internal_req['header-integer-array'] = header_integer_array&.join(' ')
+      safe_internal_req['header-boolean-array'] = header_boolean_array&.join("\t")
+      if !body.nil?
+        safe_internal_req['Content-Type'] = 'application/json'
+        safe_internal_req.body = map_exhaustive_params_body_to_dto(body).to_json
+      end
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
   end
 end
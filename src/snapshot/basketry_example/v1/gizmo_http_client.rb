@@ -21,70 +21,103 @@ module BasketryExample::V1
     include BasketryExample::V1::GizmoService
     include BasketryExample::V1::HttpClientHelpers
 
-    sig { params(api_root: String, oauth2_auth: String).void }
-    def initialize(api_root:, oauth2_auth:)
+    sig { params(api_root: String, base_path: String, oauth2_auth: BasketryExample::V1::HttpClientHelpers::OAuth2Token, transport: BasketryExample::V1::HttpClientHelpers::Transport, middleware: T::Array[BasketryExample::V1::HttpClientHelpers::Middleware], retry_policy: T.nilable(BasketryExample::V1::HttpClientHelpers::RetryPolicy)).void }
+    def initialize(api_root:, base_path: '/v1', oauth2_auth:, transport: NetHttpTransport.new, middleware: [], retry_policy: nil)
       @api_root = api_root
+      @base_path = base_path
       @oauth2_auth = oauth2_auth
+      @pipeline = T.let(
+        RequestPipeline.new(transport: transport, middleware: middleware, retry_policy: retry_policy),
+        RequestPipeline
+      )
+    end
+
+    # Builds a client from the configuration shared by every client of the service
+    sig { params(config: BasketryExample::V1::HttpClientHelpers::ClientConfig).returns(BasketryExample::V1::GizmoHttpClient) }
+    def self.from_config(config)
+      new(
+        api_root: config.api_root,
+        base_path: config.base_path,
+        oauth2_auth: config.oauth2_auth || raise(ArgumentError, 'oauth2_auth is required by GizmoHttpClient'),
+        transport: config.transport,
+        middleware: config.middleware,
+        retry_policy: config.retry_policy,
+      )
     end
 
     # Has a summary in addition to a description
     # Has a description in addition to a summary
     sig do
       override.params(
-        size: T.nilable(BasketryExample::V1::Enums::CreateGizmoSize)
+        size: T.nilable(BasketryExample::V1::Enums::CreateGizmoSize),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).returns(
         BasketryExample::V1::Types::Gizmo
       )
     end
-    def create_gizmo(size: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/gizmos")
+    def create_gizmo(size: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/gizmos")
       safe_internal_uri.query = URI.encode_www_form(
         {
-          'size': size,
+          'size': map_create_gizmo_size_to_dto(size),
         }.compact
       )
       safe_internal_req = Net::HTTP::Post.new(safe_internal_uri)
-      safe_internal_res = Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
-      map_dto_to_gizmo(JSON.parse(safe_internal_res.body))
+      safe_internal_req['Accept'] = 'application/json'
+      safe_internal_req['Authorization'] = bearer_authorization(@oauth2_auth)
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
+      map_dto_to_gizmo(read_body_as(safe_internal_res, Hash))
     end
 
     # Only has a summary
     sig do
       override.params(
-        search: T.nilable(String)
+        search: T.nilable(String),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).returns(
         BasketryExample::V1::Types::GizmosResponse
       )
     end
-    def get_gizmos(search: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/gizmos")
+    def get_gizmos(search: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/gizmos")
       safe_internal_uri.query = URI.encode_www_form(
         {
           'search': search,
         }.compact
       )
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
-      safe_internal_res = Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
-      map_dto_to_gizmos_response(JSON.parse(safe_internal_res.body))
+      safe_internal_req['Accept'] = 'application/json'
+      safe_internal_req['Authorization'] = bearer_authorization(@oauth2_auth)
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
+      map_dto_to_gizmos_response(read_body_as(safe_internal_res, Hash))
     end
 
     sig do
       override.params(
-        factors: T.nilable(T::Array[String])
+        factors: T.nilable(T::Array[String]),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).returns(
         BasketryExample::V1::Types::Gizmo
       )
     end
-    def update_gizmo(factors: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/gizmos")
+    def update_gizmo(factors: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/gizmos")
       safe_internal_uri.query = URI.encode_www_form(
         {
-          'factors': factors,
+          'factors': factors&.join(','),
         }.compact
       )
       safe_internal_req = Net::HTTP::Put.new(safe_internal_uri)
-      safe_internal_res = Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
-      map_dto_to_gizmo(JSON.parse(safe_internal_res.body))
+      safe_internal_req['Accept'] = 'application/json'
+      safe_internal_req['Authorization'] = bearer_authorization(@oauth2_auth)
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
+      map_dto_to_gizmo(read_body_as(safe_internal_res, Hash))
     end
   end
 end
@@ -12,19 +12,531 @@
 
 # frozen_string_literal: true
 
+# typed: strict
+
 module BasketryExample::V1
   module HttpClientHelpers
+    extend T::Sig
+
+    class BasicCredentials < T::Struct
+      const :username, String
+      const :password, String
+    end
+
+    sig { params(credentials: BasicCredentials).returns(String) }
+    def basic_authorization(credentials)
+      "Basic #{["#{credentials.username}:#{credentials.password}"].pack('m0')}"
+    end
+
+    # A static access token or a callable that returns a current access token
+    OAuth2Token = T.type_alias { T.any(String, T.proc.returns(String)) }
+
+    sig { params(token: OAuth2Token).returns(String) }
+    def bearer_authorization(token)
+      "Bearer #{token.is_a?(String) ? token : token.call}"
+    end
+
+    sig { params(value: Object).returns(String) }
+    def encode_path_segment(value)
+      URI.encode_www_form_component(value.to_s).gsub('+', '%20')
+    end
+
+    # Parses the body of a JSON response. Returns nil when the response has no
+    # content and the raw body when its content type is not JSON.
+    sig { params(res: Net::HTTPResponse).returns(T.untyped) }
+    def read_body(res)
+      body = res.body
+      return if body.nil? || body.empty?
+
+      content_type = res.content_type
+      return body unless content_type.nil? || content_type.match?(%r{\Aapplication/(.+\+)?json\z}i)
+
+      JSON.parse(body)
+    end
+
+    # Reads the body of a successful response that is mapped to the return type of
+    # a method. Raises an UnexpectedBodyError when the body is empty, is not valid
+    # JSON or is not one of the expected JSON types (eg. an HTML page).
+    sig { params(res: Net::HTTPResponse, json_types: Module).returns(T.untyped) }
+    def read_body_as(res, *json_types)
+      body = read_body(res)
+      return body if json_types.any? { |json_type| body.is_a?(json_type) }
+
+      raise UnexpectedBodyError.new(
+        status: Integer(res.code, 10),
+        headers: res.to_hash,
+        body: res.body,
+        message: "Expected a response body of type #{json_types.join(' or ')} but got #{body.nil? ? 'an empty body' : body.class}",
+      )
+    rescue JSON::ParserError => e
+      raise UnexpectedBodyError.new(
+        status: Integer(res.code, 10),
+        headers: res.to_hash,
+        body: res.body,
+        message: "Expected a response body of type #{json_types.join(' or ')} but got invalid JSON: #{e.message}",
+      )
+    end
+
+    # Raised when a response does not have a successful (2xx) status code
+    class HttpClientError < StandardError
+      extend T::Sig
+
+      sig { returns(Integer) }
+      attr_reader :status
+
+      sig { returns(T::Hash[String, T::Array[String]]) }
+      attr_reader :headers
+
+      sig { returns(T.nilable(String)) }
+      attr_reader :body
+
+      # The parsed JSON body of the response, if any
+      sig { returns(T.untyped) }
+      attr_reader :error
+
+      sig { params(status: Integer, headers: T::Hash[String, T::Array[String]], body: T.nilable(String), error: T.untyped, message: String).void }
+      def initialize(status:, headers:, body:, error: nil, message: "HTTP request failed with status #{status}")
+        super(message)
+        @status = status
+        @headers = headers
+        @body = body
+        @error = error
+      end
+
+      sig { params(res: Net::HTTPResponse).returns(HttpClientError) }
+      def self.from_response(res)
+        status = Integer(res.code, 10)
+        error_class = STATUS_ERRORS.fetch(status) do
+          if status >= 500
+            ServerError
+          elsif status >= 400
+            ClientError
+          else
+            HttpClientError
+          end
+        end
+        error_class.new(status: status, headers: res.to_hash, body: res.body, error: parse_error(res.body))
+      end
+
+      sig { params(body: T.nilable(String)).returns(T.untyped) }
+      def self.parse_error(body)
+        JSON.parse(body) if !body.nil? && !body.empty?
+      rescue JSON::ParserError
+        nil
+      end
+      private_class_method :parse_error
+    end
+
+    # Raised when a response has a client error (4xx) status code
+    class ClientError < HttpClientError; end
+
+    # Raised when a response has a server error (5xx) status code
+    class ServerError < HttpClientError; end
+
+    # Raised when a successful response does not have a body that can be mapped to
+    # the return type of the method
+    class UnexpectedBodyError < HttpClientError; end
+
+    class BadRequestError < ClientError; end
+    class UnauthorizedError < ClientError; end
+    class ForbiddenError < ClientError; end
+    class NotFoundError < ClientError; end
+    class ConflictError < ClientError; end
+    class UnprocessableEntityError < ClientError; end
+    class TooManyRequestsError < ClientError; end
+    class InternalServerError < ServerError; end
+    class BadGatewayError < ServerError; end
+    class ServiceUnavailableError < ServerError; end
+    class GatewayTimeoutError < ServerError; end
+
+    STATUS_ERRORS = T.let(
+      {
+        400 => BadRequestError,
+        401 => UnauthorizedError,
+        403 => ForbiddenError,
+        404 => NotFoundError,
+        409 => ConflictError,
+        422 => UnprocessableEntityError,
+        429 => TooManyRequestsError,
+        500 => InternalServerError,
+        502 => BadGatewayError,
+        503 => ServiceUnavailableError,
+        504 => GatewayTimeoutError,
+      }.freeze,
+      T::Hash[Integer, T.class_of(HttpClientError)]
+    )
+
+    # Raised instead of sending a request whose cancellation token has been cancelled
+    class CancelledError < StandardError; end
+
+    # Cancels the requests that it is passed to. Requests that have already been
+    # sent are allowed to complete, but are not retried.
+    class CancellationToken
+      extend T::Sig
+
+      sig { void }
+      def initialize
+        @cancelled = T.let(false, T::Boolean)
+      end
+
+      sig { void }
+      def cancel!
+        @cancelled = true
+      end
+
+      sig { returns(T::Boolean) }
+      def cancelled?
+        @cancelled
+      end
+    end
+
+    # Options that apply to a single call of a client method
+    class RequestOptions < T::Struct
+      # Headers to set on the request, replacing any set by the client
+      const :headers, T::Hash[String, String], default: {}
+      # Seconds to wait for the response, replacing the read timeout of the transport
+      const :timeout, T.nilable(Numeric)
+      const :cancellation, T.nilable(CancellationToken)
+    end
+
+    # Sends HTTP requests on behalf of the generated clients. Implement this
+    # interface to use a different HTTP library, a test double, or an
+    # instrumented adapter.
+    module Transport
+      extend T::Sig
+      extend T::Helpers
+      interface!
+
+      # Sends the request and returns its response. When `timeout` is set, it
+      # replaces the read timeout for this request only. When a block is given, the
+      # body of a successful response is yielded to it in chunks as it is read
+      # rather than being buffered in the response.
+      sig { abstract.params(uri: URI::Generic, req: Net::HTTPRequest, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def request(uri, req, timeout: nil, &blk); end
+    end
+
+    # Default transport that keeps a persistent Net::HTTP connection per host and
+    # thread so that concurrent requests are not serialized. Connections of
+    # threads that have exited are closed as new threads connect.
+    class NetHttpTransport
+      extend T::Sig
+      include Transport
+
+      sig do
+        params(
+          use_ssl: T.nilable(T::Boolean),
+          open_timeout: T.nilable(Numeric),
+          read_timeout: T.nilable(Numeric),
+          proxy_address: T.nilable(String),
+          proxy_port: T.nilable(Integer),
+          proxy_user: T.nilable(String),
+          proxy_pass: T.nilable(String)
+        ).void
+      end
+      def initialize(use_ssl: nil, open_timeout: nil, read_timeout: nil, proxy_address: nil, proxy_port: nil, proxy_user: nil, proxy_pass: nil)
+        @use_ssl = use_ssl
+        @open_timeout = open_timeout
+        @read_timeout = read_timeout
+        @proxy_address = proxy_address
+        @proxy_port = proxy_port
+        @proxy_user = proxy_user
+        @proxy_pass = proxy_pass
+        @connections = T.let({}, T::Hash[Thread, T::Hash[String, Net::HTTP]])
+        @mutex = T.let(Mutex.new, Mutex)
+      end
+
+      sig { override.params(uri: URI::Generic, req: Net::HTTPRequest, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def request(uri, req, timeout: nil, &blk)
+        http = connection(uri)
+        return perform(http, req, &blk) if timeout.nil?
+
+        previous = http.read_timeout
+        begin
+          http.read_timeout = timeout
+          perform(http, req, &blk)
+        ensure
+          http.read_timeout = previous
+        end
+      end
+
+      # Closes all open connections
+      sig { void }
+      def close
+        @mutex.synchronize do
+          @connections.each_value { |connections| finish(connections) }
+          @connections.clear
+        end
+      end
+
+      private
+
+      # Net::HTTP reads the body of any response that the block does not read, so
+      # unsuccessful responses keep their body for HttpClientError
+      sig { params(http: Net::HTTP, req: Net::HTTPRequest, blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def perform(http, req, &blk)
+        return http.request(req) if blk.nil?
+
+        http.request(req) { |res| res.read_body(&blk) if res.is_a?(Net::HTTPSuccess) }
+      end
+
+      sig { params(uri: URI::Generic).returns(Net::HTTP) }
+      def connection(uri)
+        key = "#{uri.scheme}://#{uri.hostname}:#{uri.port}"
+        http = @mutex.synchronize do
+          connections = @connections[Thread.current] ||= begin
+            prune
+            {}
+          end
+          connections[key] ||= build_connection(uri)
+        end
+        http.start unless http.started?
+        http
+      end
+
+      # Closes the connections of threads that have exited. Called while holding
+      # the mutex whenever a thread opens its first connection.
+      sig { void }
+      def prune
+        @connections.delete_if do |thread, connections|
+          next false if thread.alive?
+
+          finish(connections)
+          true
+        end
+      end
+
+      sig { params(connections: T::Hash[String, Net::HTTP]).void }
+      def finish(connections)
+        connections.each_value { |http| http.finish if http.started? }
+      end
+
+      sig { params(uri: URI::Generic).returns(Net::HTTP) }
+      def build_connection(uri)
+        http = Net::HTTP.new(uri.hostname, uri.port, @proxy_address || :ENV, @proxy_port, @proxy_user, @proxy_pass)
+        http.use_ssl = @use_ssl.nil? ? uri.scheme == 'https' : @use_ssl
+        http.open_timeout = @open_timeout unless @open_timeout.nil?
+        http.read_timeout = @read_timeout unless @read_timeout.nil?
+        http
+      end
+    end
+
+    # Retries requests that fail with a connection error or a retryable status
+    # code using exponential backoff with full jitter. The `Retry-After`
+    # response header is honored when present.
+    class RetryPolicy
+      extend T::Sig
+
+      IDEMPOTENT_VERBS = T.let(%w[GET HEAD PUT DELETE OPTIONS].freeze, T::Array[String])
+      RETRYABLE_STATUS_CODES = T.let([408, 429, 500, 502, 503, 504].freeze, T::Array[Integer])
+      RETRYABLE_ERRORS = T.let(
+        [
+          EOFError,
+          Errno::ECONNREFUSED,
+          Errno::ECONNRESET,
+          Errno::EPIPE,
+          Net::OpenTimeout,
+          Net::ReadTimeout,
+        ].freeze,
+        T::Array[T.class_of(StandardError)]
+      )
+
+      sig { returns(Integer) }
+      attr_reader :max_attempts
+
+      sig do
+        params(
+          max_attempts: Integer,
+          base_delay: Float,
+          max_delay: Float,
+          status_codes: T::Array[Integer],
+          verbs: T::Array[String]
+        ).void
+      end
+      def initialize(max_attempts: 3, base_delay: 0.5, max_delay: 30.0, status_codes: RETRYABLE_STATUS_CODES, verbs: IDEMPOTENT_VERBS)
+        @max_attempts = max_attempts
+        @base_delay = base_delay
+        @max_delay = max_delay
+        @status_codes = status_codes
+        @verbs = T.let(verbs.map(&:upcase), T::Array[String])
+      end
+
+      sig { params(req: Net::HTTPRequest, blk: T.proc.returns(Net::HTTPResponse)).returns(Net::HTTPResponse) }
+      def run(req, &blk)
+        attempt = 1
+        loop do
+          begin
+            res = yield
+          rescue *RETRYABLE_ERRORS
+            raise unless retry?(req, attempt)
+
+            sleep(delay(attempt, nil))
+          else
+            return res unless retry?(req, attempt) && @status_codes.include?(Integer(res.code, 10))
+
+            sleep(delay(attempt, res['Retry-After']))
+          end
+          attempt += 1
+        end
+      end
+
+      private
+
+      sig { params(req: Net::HTTPRequest, attempt: Integer).returns(T::Boolean) }
+      def retry?(req, attempt)
+        attempt < @max_attempts && @verbs.include?(req.method)
+      end
+
+      sig { params(attempt: Integer, retry_after: T.nilable(String)).returns(Float) }
+      def delay(attempt, retry_after)
+        requested = parse_retry_after(retry_after)
+        return [requested, @max_delay].min unless requested.nil?
+
+        rand * [@base_delay * (2**(attempt - 1)), @max_delay].min
+      end
+
+      sig { params(value: T.nilable(String)).returns(T.nilable(Float)) }
+      def parse_retry_after(value)
+        return if value.nil?
+        return Float(value) if value.match?(/\A\d+(\.\d+)?\z/)
+
+        [Time.httpdate(value) - Time.now, 0.0].max
+      rescue ArgumentError
+        nil
+      end
+    end
+
+    # Sends a request to the next middleware (or the transport) and returns its response
+    Next = T.type_alias { T.proc.params(req: Net::HTTPRequest).returns(Net::HTTPResponse) }
+
+    # Receives each outgoing request and a continuation that sends it. Middleware
+    # may modify the request before calling `nxt` and inspect or replace the
+    # response that `nxt` returns.
+    Middleware = T.type_alias { T.proc.params(req: Net::HTTPRequest, nxt: Next).returns(Net::HTTPResponse) }
+
+    # Sends requests through each middleware in order and then through the transport
+    class RequestPipeline
+      extend T::Sig
+
+      sig { params(transport: Transport, middleware: T::Array[Middleware], retry_policy: T.nilable(RetryPolicy)).void }
+      def initialize(transport:, middleware: [], retry_policy: nil)
+        @transport = transport
+        @middleware = middleware
+        @retry_policy = retry_policy
+      end
+
+      # Streamed requests are not retried because part of their body may already
+      # have been yielded to the block
+      sig { params(uri: URI::Generic, req: Net::HTTPRequest, options: T.nilable(RequestOptions), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def call(uri, req, options = nil, &blk)
+        return attempt(uri, req, options, &blk) if @retry_policy.nil? || blk
+
+        @retry_policy.run(req) { attempt(uri, req, options) }
+      end
+
+      private
+
+      # Raises instead of sending the request once its cancellation token has been
+      # cancelled, which also stops any remaining retries
+      sig { params(uri: URI::Generic, req: Net::HTTPRequest, options: T.nilable(RequestOptions), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def attempt(uri, req, options, &blk)
+        raise CancelledError, "#{req.method} #{uri} was cancelled" if options&.cancellation&.cancelled?
+
+        dispatch(uri, req, 0, options&.timeout, &blk)
+      end
+
+      sig { params(uri: URI::Generic, req: Net::HTTPRequest, index: Integer, timeout: T.nilable(Numeric), blk: T.nilable(T.proc.params(chunk: String).void)).returns(Net::HTTPResponse) }
+      def dispatch(uri, req, index, timeout, &blk)
+        middleware = @middleware[index]
+        return @transport.request(uri, req, timeout: timeout, &blk) if middleware.nil?
+
+        middleware.call(req, ->(r) { dispatch(uri, r, index + 1, timeout, &blk) })
+      end
+    end
+
+    # Built-in middleware
+    module Middlewares
+      extend T::Sig
+
+      # Sets each header that has not already been set on the request
+      sig { params(headers: T::Hash[String, String]).returns(Middleware) }
+      def self.default_headers(headers)
+        lambda do |req, nxt|
+          headers.each { |name, value| req[name] = value unless req.key?(name) }
+          nxt.call(req)
+        end
+      end
+
+      # Logs each request and its response status and duration
+      sig { params(logger: ::Logger).returns(Middleware) }
+      def self.logger(logger)
+        lambda do |req, nxt|
+          started_at = Process.clock_gettime(Process::CLOCK_MONOTONIC)
+          logger.info("HTTP #{req.method} #{req.uri}")
+          res = nxt.call(req)
+          duration = ((Process.clock_gettime(Process::CLOCK_MONOTONIC) - started_at) * 1000).round
+          logger.info("HTTP #{req.method} #{req.uri} completed with #{res.code} in #{duration}ms")
+          res
+        end
+      end
+    end
+
+    # The configuration shared by every client of the service
+    class ClientConfig < T::Struct
+      extend T::Sig
+
+      const :api_root, String
+      const :base_path, String, default: '/v1'
+      const :oauth2_auth, T.nilable(OAuth2Token)
+      const :api_key_auth, T.nilable(String)
+      const :basic_auth, T.nilable(BasicCredentials)
+      const :alternate_basic_auth, T.nilable(BasicCredentials)
+      const :alternate_api_key_auth, T.nilable(String)
+      const :transport, Transport, factory: -> { NetHttpTransport.new }
+      const :middleware, T::Array[Middleware], default: []
+      const :retry_policy, T.nilable(RetryPolicy)
+
+      # Reads the configuration from the following environment variables:
+      # - BASKETRY_EXAMPLE_API_ROOT (required)
+      # - BASKETRY_EXAMPLE_BASE_PATH (default: '/v1')
+      # - BASKETRY_EXAMPLE_OAUTH2_AUTH
+      # - BASKETRY_EXAMPLE_API_KEY_AUTH
+      # - BASKETRY_EXAMPLE_BASIC_AUTH_USERNAME and BASKETRY_EXAMPLE_BASIC_AUTH_PASSWORD
+      # - BASKETRY_EXAMPLE_ALTERNATE_BASIC_AUTH_USERNAME and BASKETRY_EXAMPLE_ALTERNATE_BASIC_AUTH_PASSWORD
+      # - BASKETRY_EXAMPLE_ALTERNATE_API_KEY_AUTH
+      # - BASKETRY_EXAMPLE_OPEN_TIMEOUT and BASKETRY_EXAMPLE_READ_TIMEOUT in seconds
+      sig { params(env: T::Hash[String, String]).returns(ClientConfig) }
+      def self.from_env(env = ENV.to_h)
+        new(
+          api_root: env.fetch('BASKETRY_EXAMPLE_API_ROOT'),
+          base_path: env.fetch('BASKETRY_EXAMPLE_BASE_PATH', '/v1'),
+          oauth2_auth: env['BASKETRY_EXAMPLE_OAUTH2_AUTH'],
+          api_key_auth: env['BASKETRY_EXAMPLE_API_KEY_AUTH'],
+          basic_auth: env.key?('BASKETRY_EXAMPLE_BASIC_AUTH_USERNAME') ? BasicCredentials.new(username: env.fetch('BASKETRY_EXAMPLE_BASIC_AUTH_USERNAME'), password: env.fetch('BASKETRY_EXAMPLE_BASIC_AUTH_PASSWORD')) : nil,
+          alternate_basic_auth: env.key?('BASKETRY_EXAMPLE_ALTERNATE_BASIC_AUTH_USERNAME') ? BasicCredentials.new(username: env.fetch('BASKETRY_EXAMPLE_ALTERNATE_BASIC_AUTH_USERNAME'), password: env.fetch('BASKETRY_EXAMPLE_ALTERNATE_BASIC_AUTH_PASSWORD')) : nil,
+          alternate_api_key_auth: env['BASKETRY_EXAMPLE_ALTERNATE_API_KEY_AUTH'],
+          transport: NetHttpTransport.new(
+            open_timeout: env['BASKETRY_EXAMPLE_OPEN_TIMEOUT']&.then { |value| Float(value) },
+            read_timeout: env['BASKETRY_EXAMPLE_READ_TIMEOUT']&.then { |value| Float(value) },
+          ),
+        )
+      end
+    end
+
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_gizmo(dto)
       BasketryExample::V1::Types::Gizmo.new(
         id: dto['id'],
         name: dto['name'],
-        size: map_dto_to_product_size(dto['size'])
+        size: dto['size']&.then { |value| map_dto_to_product_size(value) }
       )
     rescue StandardError
       dto
     end
 
+    sig { params(gizmo: T.untyped).returns(T.untyped) }
     def map_gizmo_to_dto(gizmo)
+      return if gizmo.nil?
+
       {
         'id': gizmo.id,
         'name': gizmo.name,
@@ -34,6 +546,7 @@ module BasketryExample::V1
       gizmo
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_widget(dto)
       BasketryExample::V1::Types::Widget.new(
         id: dto['id'],
@@ -41,14 +554,17 @@ module BasketryExample::V1
         fiz: dto['fiz'].is_a?(String) ? Float(dto['fiz']) : dto['fiz'],
         buzz: dto['buzz'].is_a?(String) ? Float(dto['buzz']) : dto['buzz'],
         fizbuzz: dto['fizbuzz'].is_a?(String) ? Float(dto['fizbuzz']) : dto['fizbuzz'],
-        foo: map_dto_to_widget_foo(dto['foo']),
-        size: map_dto_to_product_size(dto['size'])
+        foo: dto['foo']&.then { |value| map_dto_to_widget_foo(value) },
+        size: dto['size']&.then { |value| map_dto_to_product_size(value) }
       )
     rescue StandardError
       dto
     end
 
+    sig { params(widget: T.untyped).returns(T.untyped) }
     def map_widget_to_dto(widget)
+      return if widget.nil?
+
       {
         'id': widget.id,
         'name': widget.name,
@@ -62,20 +578,24 @@ module BasketryExample::V1
       widget
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_new_widget(dto)
       BasketryExample::V1::Types::NewWidget.new(
         name: dto['name'],
         fiz: dto['fiz'].is_a?(String) ? Float(dto['fiz']) : dto['fiz'],
         buzz: dto['buzz'].is_a?(String) ? Float(dto['buzz']) : dto['buzz'],
         fizbuzz: dto['fizbuzz'].is_a?(String) ? Float(dto['fizbuzz']) : dto['fizbuzz'],
-        foo: map_dto_to_new_widget_foo(dto['foo']),
-        size: map_dto_to_product_size(dto['size'])
+        foo: dto['foo']&.then { |value| map_dto_to_new_widget_foo(value) },
+        size: dto['size']&.then { |value| map_dto_to_product_size(value) }
       )
     rescue StandardError
       dto
     end
 
+    sig { params(new_widget: T.untyped).returns(T.untyped) }
     def map_new_widget_to_dto(new_widget)
+      return if new_widget.nil?
+
       {
         'name': new_widget.name,
         'fiz': new_widget.fiz,
@@ -88,6 +608,7 @@ module BasketryExample::V1
       new_widget
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_gizmos_response(dto)
       BasketryExample::V1::Types::GizmosResponse.new(
         data: dto['data']&.map { |item| map_dto_to_gizmo(item) }
@@ -96,7 +617,10 @@ module BasketryExample::V1
       dto
     end
 
+    sig { params(gizmos_response: T.untyped).returns(T.untyped) }
     def map_gizmos_response_to_dto(gizmos_response)
+      return if gizmos_response.nil?
+
       {
         'data': gizmos_response.data&.map { |item| map_gizmo_to_dto(item) },
       }.compact
@@ -104,6 +628,7 @@ module BasketryExample::V1
       gizmos_response
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_create_widget_body(dto)
       BasketryExample::V1::Types::CreateWidgetBody.new(
         name: dto['name']
@@ -112,7 +637,10 @@ module BasketryExample::V1
       dto
     end
 
+    sig { params(create_widget_body: T.untyped).returns(T.untyped) }
     def map_create_widget_body_to_dto(create_widget_body)
+      return if create_widget_body.nil?
+
       {
         'name': create_widget_body.name,
       }.compact
@@ -120,6 +648,7 @@ module BasketryExample::V1
       create_widget_body
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_body(dto)
       BasketryExample::V1::Types::ExhaustiveParamsBody.new(
         foo: dto['foo'],
@@ -129,7 +658,10 @@ module BasketryExample::V1
       dto
     end
 
+    sig { params(exhaustive_params_body: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_body_to_dto(exhaustive_params_body)
+      return if exhaustive_params_body.nil?
+
       {
         'foo': exhaustive_params_body.foo,
         'bar': exhaustive_params_body.bar,
@@ -138,6 +670,7 @@ module BasketryExample::V1
       exhaustive_params_body
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_widget_foo(dto)
       BasketryExample::V1::Types::WidgetFoo.new(
         fiz: dto['fiz'].is_a?(String) ? Float(dto['fiz']) : dto['fiz'],
@@ -147,7 +680,10 @@ module BasketryExample::V1
       dto
     end
 
+    sig { params(widget_foo: T.untyped).returns(T.untyped) }
     def map_widget_foo_to_dto(widget_foo)
+      return if widget_foo.nil?
+
       {
         'fiz': widget_foo.fiz,
         'buzz': widget_foo.buzz,
@@ -156,6 +692,7 @@ module BasketryExample::V1
       widget_foo
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_new_widget_foo(dto)
       BasketryExample::V1::Types::NewWidgetFoo.new(
         fiz: dto['fiz'].is_a?(String) ? Float(dto['fiz']) : dto['fiz'],
@@ -165,7 +702,10 @@ module BasketryExample::V1
       dto
     end
 
+    sig { params(new_widget_foo: T.untyped).returns(T.untyped) }
     def map_new_widget_foo_to_dto(new_widget_foo)
+      return if new_widget_foo.nil?
+
       {
         'fiz': new_widget_foo.fiz,
         'buzz': new_widget_foo.buzz,
@@ -174,100 +714,137 @@ module BasketryExample::V1
       new_widget_foo
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_create_gizmo_size(dto)
       BasketryExample::V1::Enums::CreateGizmoSize.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_create_gizmo_size_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_query_enum(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsQueryEnum.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_query_enum_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_query_enum_array(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsQueryEnumArray.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_query_enum_array_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_path_enum(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsPathEnum.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_path_enum_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_path_enum_array(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsPathEnumArray.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_path_enum_array_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_header_enum(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsHeaderEnum.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_header_enum_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_exhaustive_params_header_enum_array(dto)
       BasketryExample::V1::Enums::ExhaustiveParamsHeaderEnumArray.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_exhaustive_params_header_enum_array_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
 
+    sig { params(dto: T.untyped).returns(T.untyped) }
     def map_dto_to_product_size(dto)
       BasketryExample::V1::Enums::ProductSize.deserialize(dto)
     rescue StandardError
       dto
     end
 
+    sig { params(enum: T.untyped).returns(T.untyped) }
     def map_product_size_to_dto(enum)
       enum&.serialize
     rescue StandardError
       enum
     end
+
+    sig { params(dto: T.untyped).returns(T.untyped) }
+    def map_dto_to_example_union(dto)
+      if dto.is_a?(Hash)
+        map_dto_to_gizmo(dto)
+      elsif dto.is_a?(Array) && dto.all? { |item| item.is_a?(String) }
+        dto
+      else
+        dto
+      end
+    end
+
+    sig { params(value: T.nilable(T.any(BasketryExample::V1::Types::Gizmo, T::Array[String]))).returns(T.untyped) }
+    def map_example_union_to_dto(value)
+      case value
+      when BasketryExample::V1::Types::Gizmo
+        map_gizmo_to_dto(value)
+      else
+        value
+      end
+    end
   end
 end
@@ -21,67 +21,113 @@ module BasketryExample::V1
     include BasketryExample::V1::WidgetService
     include BasketryExample::V1::HttpClientHelpers
 
-    sig { params(api_root: String, api_key_auth: String).void }
-    def initialize(api_root:, api_key_auth:)
+    sig { params(api_root: String, base_path: String, api_key_auth: String, transport: BasketryExample::V1::HttpClientHelpers::Transport, middleware: T::Array[BasketryExample::V1::HttpClientHelpers::Middleware], retry_policy: T.nilable(BasketryExample::V1::HttpClientHelpers::RetryPolicy)).void }
+    def initialize(api_root:, base_path: '/v1', api_key_auth:, transport: NetHttpTransport.new, middleware: [], retry_policy: nil)
       @api_root = api_root
+      @base_path = base_path
       @api_key_auth = api_key_auth
+      @pipeline = T.let(
+        RequestPipeline.new(transport: transport, middleware: middleware, retry_policy: retry_policy),
+        RequestPipeline
+      )
+    end
+
+    # Builds a client from the configuration shared by every client of the service
+    sig { params(config: BasketryExample::V1::HttpClientHelpers::ClientConfig).returns(BasketryExample::V1::WidgetHttpClient) }
+    def self.from_config(config)
+      new(
+        api_root: config.api_root,
+        base_path: config.base_path,
+        api_key_auth: config.api_key_auth || raise(ArgumentError, 'api_key_auth is required by WidgetHttpClient'),
+        transport: config.transport,
+        middleware: config.middleware,
+        retry_policy: config.retry_policy,
+      )
     end
 
     sig do
       override.params(
-        body: T.nilable(BasketryExample::V1::Types::CreateWidgetBody)
+        body: T.nilable(BasketryExample::V1::Types::CreateWidgetBody),
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).void
     end
-    def create_widget(body: nil)
-      safe_internal_uri = URI("#{@api_root}/v1/widgets")
+    def create_widget(body: nil, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets")
       safe_internal_req = Net::HTTP::Post.new(safe_internal_uri)
       safe_internal_req['x-apikey'] = @api_key_auth
-      safe_internal_req.body = map_create_widget_body_to_dto(body).to_s if !body.nil?
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      if !body.nil?
+        safe_internal_req['Content-Type'] = 'application/json'
+        safe_internal_req.body = map_create_widget_body_to_dto(body).to_json
+      end
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
 
     sig do
       override.params(
-        id: String
+        id: String,
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).void
     end
-    def delete_widget_foo(id:)
-      safe_internal_uri = URI("#{@api_root}/v1/widgets/#{id}/foo")
+    def delete_widget_foo(id:, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets/#{encode_path_segment(id)}/foo")
       safe_internal_req = Net::HTTP::Delete.new(safe_internal_uri)
       safe_internal_req['x-apikey'] = @api_key_auth
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
 
     sig do
       override.params(
-        id: String
+        id: String,
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
       ).returns(
         BasketryExample::V1::Types::Widget
       )
     end
-    def get_widget_foo(id:)
-      safe_internal_uri = URI("#{@api_root}/v1/widgets/#{id}/foo")
+    def get_widget_foo(id:, request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets/#{encode_path_segment(id)}/foo")
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
+      safe_internal_req['Accept'] = 'application/json'
       safe_internal_req['x-apikey'] = @api_key_auth
-      safe_internal_res = Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
-      map_dto_to_widget(JSON.parse(safe_internal_res.body))
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
+      map_dto_to_widget(read_body_as(safe_internal_res, Hash))
     end
 
-    sig { override.returns(BasketryExample::V1::Types::Widget) }
-    def get_widgets
-      safe_internal_uri = URI("#{@api_root}/v1/widgets")
+    sig do
+      override.params(
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
+      ).returns(
+        BasketryExample::V1::Types::Widget
+      )
+    end
+    def get_widgets(request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets")
       safe_internal_req = Net::HTTP::Get.new(safe_internal_uri)
+      safe_internal_req['Accept'] = 'application/json'
       safe_internal_req['x-apikey'] = @api_key_auth
-      safe_internal_res = Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
-      map_dto_to_widget(JSON.parse(safe_internal_res.body))
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
+      map_dto_to_widget(read_body_as(safe_internal_res, Hash))
     end
 
-    sig { override.void }
-    def put_widget
-      safe_internal_uri = URI("#{@api_root}/v1/widgets")
+    sig do
+      override.params(
+        request_options: T.nilable(BasketryExample::V1::HttpClientHelpers::RequestOptions)
+      ).void
+    end
+    def put_widget(request_options: nil)
+      safe_internal_uri = URI("#{@api_root}#{@base_path}/widgets")
       safe_internal_req = Net::HTTP::Put.new(safe_internal_uri)
       safe_internal_req['x-apikey'] = @api_key_auth
-      Net::HTTP.start(safe_internal_uri.hostname, safe_internal_uri.port) { |http| http.request(safe_internal_req) }
+      request_options&.headers&.each { |name, value| safe_internal_req[name] = value }
+      safe_internal_res = @pipeline.call(safe_internal_uri, safe_internal_req, request_options)
+      raise HttpClientError.from_response(safe_internal_res) unless safe_internal_res.is_a?(Net::HTTPSuccess)
     end
   end
 end
@@ -0,0 +1,644 @@
+import {
+  File,
+  Generator,
+  HttpMethod,
+  HttpParameter,
+  HttpPath,
+  Interface,
+  isApiKeyScheme,
+  isBasicScheme,
+  isOAuth2Scheme,
+  isRequired,
+  Method,
+  Parameter,
+  Primitive,
+  SecurityScheme,
+  Service,
+  TypedValue,
+  ValidationRule,
+} from 'basketry';
+import {
+  buildMethodName,
+  buildParameterName,
+  buildPropertyName,
+  buildTypeName,
+} from '@basketry/sorbet/lib/name-factory';
+import { warning } from '@basketry/sorbet/lib/warning';
+import { snake } from 'case';
+
+import { buildBasePath } from './defaults';
+import {
+  getHttp,
+  getHttpParameter,
+  getSecuritySchemes,
+  isRequiredScheme,
+  sortInterfaces,
+  sortMethods,
+} from './http-client-factory';
+import {
+  buildClientName,
+  buildClientNamespace,
+  buildMapperName,
+  buildMapperNamespace,
+  buildSpecFilepath,
+} from './name-factory';
+import { SorbetHttpClientOptions } from './types';
+import { block, from, indent, rubyString } from './utils';
+
+export const generateSpecs: Generator = (
+  service,
+  options?: SorbetHttpClientOptions,
+) => {
+  return new Builder(service, options).build();
+};
+
+/** A sample value of a parameter or property */
+type Sample = {
+  /** The Ruby expression passed to the client */
+  value: string;
+  /** The Ruby expression of the value sent in a path, query, header or form */
+  wire: string;
+  /** The wire value when it is known at generation time */
+  text?: string;
+  /** The Ruby expression of the value in a JSON body */
+  json: string;
+};
+
+type ValueLike = TypedValue & { rules: ValidationRule[] };
+
+const apiRoot = 'https://api.example.com';
+const maxDepth = 5;
+
+class Builder {
+  constructor(
+    private readonly service: Service,
+    private readonly options?: SorbetHttpClientOptions,
+  ) {}
+
+  build(): File[] {
+    if (!this.options?.sorbetHttpClient?.contractSpecs) return [];
+
+    return sortInterfaces(this.service.interfaces).map((int) => ({
+      path: buildSpecFilepath(int, this.service, this.options),
+      contents: from(this.buildSpec(int)),
+    }));
+  }
+
+  private get mapper(): string {
+    return `${buildMapperNamespace(
+      this.service,
+      this.options,
+    )}::${buildMapperName()}`;
+  }
+
+  private *buildSpec(int: Interface): Iterable<string> {
+    yield warning(this.service, require('../package.json'));
+    yield '';
+
+    if (this.options?.sorbet?.magicComments?.length) {
+      for (const magicComment of this.options.sorbet.magicComments) {
+        yield `# ${magicComment}`;
+      }
+      yield '';
+    }
+
+    yield '# typed: false';
+    yield '';
+    yield "require 'webmock/rspec'";
+    yield '';
+
+    const examples = sortMethods(int.methods)
+      .map((method) => this.buildExample(int, method))
+      .filter((example): example is Iterable<string> => !!example);
+
+    yield* block(
+      `RSpec.describe ${buildClientNamespace(
+        this.service,
+        this.options,
+      )}::${buildClientName(int)} do`,
+      function* () {
+        yield `let(:api_root) { ${rubyString(apiRoot)} }`;
+        for (const example of examples) {
+          yield '';
+          yield* example;
+        }
+      },
+    );
+    yield '';
+  }
+
+  /**
+   * Builds an example that stubs the request that the method is expected to
+   * send and checks that the sample response is mapped to its return type.
+   * Returns `undefined` when a required parameter cannot be sampled.
+   */
+  private buildExample(
+    int: Interface,
+    method: Method,
+  ): Iterable<string> | undefined {
+    const self = this;
+    const [httpMethod, httpPath] =
+      getHttp(this.service, method.name.value) || [];
+    if (!httpMethod || !httpPath) return;
+
+    // Methods raise an UnexpectedBodyError when their response has no body
+    if (
+      method.returnType &&
+      !this.buildSample(method.returnType, 'result', 0)
+    ) {
+      return;
+    }
+
+    const args: string[] = [];
+    const path = new Map<string, Sample>();
+    const query: string[] = [];
+    const headers: string[] = [];
+    const form: string[] = [];
+    let body: string | undefined;
+
+    for (const param of method.parameters) {
+      const httpParam = getHttpParameter(
+        this.service,
+        method.name.value,
+        param.name.value,
+      );
+      const sample = httpParam && this.buildParameterSample(param, httpParam);
+      if (!httpParam || !sample) {
+        if (isRequired(param)) return;
+        continue;
+      }
+
+      args.push(`${buildParameterName(param)}: ${sample.value}`);
+      const name = rubyString(httpParam.name.value);
+      switch (httpParam.in.value) {
+        case 'path':
+          path.set(httpParam.name.value, sample);
+          break;
+        case 'query':
+          query.push(`${name} => ${wireString(sample)}`);
+          break;
+        case 'header':
+          headers.push(`${name} => ${wireString(sample)}`);
+          break;
+        case 'formData':
+          form.push(`${name} => ${wireString(sample)}`);
+          break;
+        case 'body':
+          body = sample.json;
+          break;
+      }
+    }
+
+    const credentials = this.buildCredentials(int, method);
+    const cookies: string[] = [];
+    for (const { scheme, wire } of credentials) {
+      if (!wire) continue;
+      if (isBasicScheme(scheme) || isOAuth2Scheme(scheme)) {
+        headers.push(`'Authorization' => ${rubyString(wire)}`);
+      } else if (isApiKeyScheme(scheme)) {
+        const name = rubyString(scheme.parameter.value);
+        if (scheme.in.value === 'header') {
+          headers.push(`${name} => ${rubyString(wire)}`);
+        } else if (scheme.in.value === 'query') {
+          query.push(`${name} => ${rubyString(wire)}`);
+        } else {
+          cookies.push(`${scheme.parameter.value}=${wire}`);
+        }
+      }
+    }
+    if (cookies.length) {
+      headers.push(`'Cookie' => ${rubyString(cookies.join('; '))}`);
+    }
+    if (method.returnType) {
+      headers.push(
+        `'Accept' => ${rubyString(
+          method.returnType.isPrimitive
+            ? 'application/json, text/plain;q=0.9'
+            : 'application/json',
+        )}`,
+      );
+    }
+    if (body) headers.push("'Content-Type' => 'application/json'");
+
+    const options = [
+      ...(query.length ? [`query: { ${query.join(', ')} },`] : []),
+      ...(form.length ? [`body: { ${form.join(', ')} },`] : []),
+      ...(headers.length ? [`headers: { ${headers.join(', ')} },`] : []),
+    ];
+
+    const response = this.buildResponse(method, httpMethod);
+    const result = method.returnType ? 'result = ' : '';
+    const clientArgs = [
+      'api_root: api_root',
+      ...credentials.map(({ name, value }) => `${name}: ${value}`),
+    ];
+    const verb = httpMethod.verb.value;
+
+    return block(
+      `describe '#${buildMethodName(method)}' do`,
+      block(
+        `it ${rubyString(
+          `sends ${verb.toUpperCase()} ${httpPath.path.value}${
+            method.returnType ? ' and maps the response' : ''
+          }`,
+        )} do`,
+        function* () {
+          yield `client = described_class.new(${clientArgs.join(', ')})`;
+          yield `request = stub_request(:${verb}, ${self.buildUrl(
+            httpPath,
+            path,
+          )})`;
+          yield* indent(function* () {
+            if (options.length) {
+              yield '.with(';
+              yield* indent(options);
+              yield body === undefined
+                ? ')'
+                : `) { |req| JSON.parse(req.body) == ${body} }`;
+            } else if (body !== undefined) {
+              yield `.with { |req| JSON.parse(req.body) == ${body} }`;
+            }
+            yield response;
+          });
+          yield '';
+          yield `${result}client.${buildMethodName(method)}${
+            args.length ? `(${args.join(', ')})` : ''
+          }`;
+          yield '';
+          yield 'expect(request).to have_been_requested';
+          yield* self.buildResultExpectations(method);
+        },
+      ),
+    );
+  }
+
+  /** Builds the URL of the stubbed request with each path parameter encoded */
+  private buildUrl(httpPath: HttpPath, samples: Map<string, Sample>): string {
+    const subpath = httpPath.path.value
+      .split('/')
+      .map((seg) => {
+        const name =
+          seg.startsWith('{') && seg.endsWith('}')
+            ? seg.substring(1, seg.length - 1)
+            : seg.startsWith(':')
+            ? seg.substring(1)
+            : undefined;
+        const sample = name === undefined ? undefined : samples.get(name);
+        if (!sample) return escape(seg);
+
+        return sample.text === undefined
+          ? `#{URI.encode_www_form_component(${sample.wire}).gsub('+', '%20')}`
+          : escape(encodeURIComponent(sample.text));
+      })
+      .join('/');
+
+    return `"#{api_root}${escape(
+      buildBasePath(this.service, this.options),
+    )}${subpath}"`;
+  }
+
+  private buildResponse(method: Method, httpMethod: HttpMethod): string {
+    const status = httpMethod.successCode.value;
+    const sample =
+      method.returnType && this.buildSample(method.returnType, 'result', 0);
+
+    return sample
+      ? `.to_return(status: ${status}, headers: { 'Content-Type' => 'application/json' }, body: JSON.generate(${sample.json}))`
+      : `.to_return(status: ${status})`;
+  }
+
+  private *buildResultExpectations(method: Method): Iterable<string> {
+    const returnType = method.returnType;
+    if (!returnType) return;
+
+    const sample = this.buildSample(returnType, 'result', 0);
+    if (!sample || this.isUnion(returnType)) return;
+
+    const typeName = buildTypeName({
+      type: returnType,
+      service: this.service,
+      options: this.options,
+      skipArrayify: true,
+    });
+
+    if (returnType.isArray) {
+      if (returnType.isPrimitive) {
+        yield `expect(result).to eq(${sample.json})`;
+      } else {
+        yield `expect(result).to all(be_a(${typeName}))`;
+        yield 'expect(result.length).to eq(1)';
+      }
+    } else if (returnType.isPrimitive) {
+      if (isScalar(returnType.typeName.value)) {
+        yield `expect(result).to eq(${sample.value})`;
+      }
+    } else if (this.getEnum(returnType)) {
+      yield `expect(result).to eq(${sample.value})`;
+    } else {
+      yield `expect(result).to be_a(${typeName})`;
+
+      const type = this.getType(returnType);
+      for (const prop of type?.properties ?? []) {
+        if (!isRequired(prop) || prop.isArray || !prop.isPrimitive) continue;
+        if (!isScalar(prop.typeName.value)) continue;
+
+        const propSample = this.buildSample(prop, prop.name.value, 1);
+        if (propSample) {
+          yield `expect(result.${buildPropertyName(prop)}).to eq(${
+            propSample.value
+          })`;
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds the credentials of every scheme that the client requires and of
+   * the first security option of the method, which is the one that the
+   * client selects when all of them are configured.
+   */
+  private buildCredentials(
+    int: Interface,
+    method: Method,
+  ): { name: string; scheme: SecurityScheme; value: string; wire?: string }[] {
+    const sent = new Set(
+      (method.security[0] ?? []).map((scheme) => snake(scheme.name.value)),
+    );
+
+    return getSecuritySchemes(int)
+      .filter(
+        (scheme) =>
+          isRequiredScheme(int, scheme) || sent.has(snake(scheme.name.value)),
+      )
+      .map((scheme) => {
+        const name = snake(scheme.name.value);
+        const isSent = sent.has(name);
+
+        if (isBasicScheme(scheme)) {
+          return {
+            name,
+            scheme,
+            value: `${this.mapper}::BasicCredentials.new(username: 'username', password: 'password')`,
+            wire: isSent
+              ? `Basic ${Buffer.from('username:password').toString('base64')}`
+              : undefined,
+          };
+        } else if (isOAuth2Scheme(scheme)) {
+          return {
+            name,
+            scheme,
+            value: "'token'",
+            wire: isSent ? 'Bearer token' : undefined,
+          };
+        } else {
+          return {
+            name,
+            scheme,
+            value: rubyString(name),
+            wire: isSent ? name : undefined,
+          };
+        }
+      });
+  }
+
+  private buildParameterSample(
+    param: Parameter,
+    httpParam: HttpParameter,
+  ): Sample | undefined {
+    const sample = this.buildSample(param, param.name.value, 0);
+    if (!sample) return;
+
+    if (httpParam.in.value === 'body') return sample;
+    if (!param.isPrimitive && !this.getEnum(param)) return;
+
+    return sample;
+  }
+
+  private buildSample(
+    value: ValueLike,
+    name: string,
+    depth: number,
+  ): Sample | undefined {
+    if (value.isArray) {
+      // A single item is sent the same way regardless of the array format
+      if (
+        value.rules.some((r) => r.id === 'array-min-items' && r.min.value > 1)
+      ) {
+        return;
+      }
+      const item = this.buildSample({ ...value, isArray: false }, name, depth);
+      if (!item) return;
+
+      return { ...item, value: `[${item.value}]`, json: `[${item.json}]` };
+    }
+
+    if (value.isPrimitive) {
+      if (this.options?.sorbet?.types?.[value.typeName.value]) return;
+      return buildPrimitiveSample(value.typeName.value, value.rules, name);
+    }
+
+    const e = this.getEnum(value);
+    if (e) {
+      const first = e.values[0]?.value;
+      if (first === undefined) return;
+
+      return {
+        value: `${this.buildTypeName(value)}.deserialize(${rubyString(first)})`,
+        wire: rubyString(first),
+        text: first,
+        json: rubyString(first),
+      };
+    }
+
+    const union = this.service.unions.find(
+      (u) => u.name.value === value.typeName.value,
+    );
+    if (union) {
+      const [member] = union.members;
+      return member
+        ? this.buildSample({ ...member, rules: [] }, name, depth)
+        : undefined;
+    }
+
+    const type = this.getType(value);
+    if (!type || depth > maxDepth) return;
+
+    const values: string[] = [];
+    const json: string[] = [];
+    for (const prop of type.properties) {
+      if (!isRequired(prop)) continue;
+
+      const sample = this.buildSample(prop, prop.name.value, depth + 1);
+      if (!sample) return;
+
+      values.push(`${buildPropertyName(prop)}: ${sample.value}`);
+      json.push(`${rubyString(prop.name.value)} => ${sample.json}`);
+    }
+
+    const constructor = `${this.buildTypeName(value)}.new${
+      values.length ? `(${values.join(', ')})` : ''
+    }`;
+    const hash = json.length ? `{ ${json.join(', ')} }` : '{}';
+    return { value: constructor, wire: hash, json: hash };
+  }
+
+  private buildTypeName(value: TypedValue): string {
+    return buildTypeName({
+      type: value,
+      service: this.service,
+      options: this.options,
+      skipArrayify: true,
+    });
+  }
+
+  private getType(value: TypedValue) {
+    return this.service.types.find(
+      (t) => t.name.value === value.typeName.value,
+    );
+  }
+
+  private getEnum(value: TypedValue) {
+    return this.service.enums.find(
+      (e) => e.name.value === value.typeName.value,
+    );
+  }
+
+  private isUnion(value: TypedValue): boolean {
+    return this.service.unions.some(
+      (u) => u.name.value === value.typeName.value,
+    );
+  }
+}
+
+function wireString(sample: Sample): string {
+  return sample.text === undefined ? sample.wire : rubyString(sample.text);
+}
+
+/** Scalars are returned as parsed from JSON without a cast */
+function isScalar(typeName: Primitive): boolean {
+  return [
+    'string',
+    'number',
+    'integer',
+    'long',
+    'float',
+    'double',
+    'boolean',
+  ].includes(typeName);
+}
+
+/** Escapes the static parts of a double-quoted Ruby string */
+function escape(value: string): string {
+  return value.replace(/[\\"#]/g, (c) => `\\${c}`);
+}
+
+function buildPrimitiveSample(
+  typeName: Primitive,
+  rules: ValidationRule[],
+  name: string,
+): Sample | undefined {
+  switch (typeName) {
+    case 'string':
+      return stringSample(buildStringSample(rules, name));
+    case 'integer':
+    case 'long': {
+      const value = `${buildNumberSample(rules, true)}`;
+      return { value, wire: value, text: value, json: value };
+    }
+    case 'number':
+    case 'float':
+    case 'double': {
+      const n = buildNumberSample(rules, false);
+      const value = Number.isInteger(n) ? n.toFixed(1) : `${n}`;
+      return { value, wire: value, text: value, json: value };
+    }
+    case 'boolean':
+      return { value: 'true', wire: 'true', text: 'true', json: 'true' };
+    case 'date':
+      return {
+        value: 'Date.new(2020, 1, 2)',
+        wire: "'2020-01-02'",
+        text: '2020-01-02',
+        json: "'2020-01-02'",
+      };
+    case 'date-time': {
+      const wire = 'DateTime.new(2020, 1, 2, 3, 4, 5).utc.iso8601';
+      return { value: 'DateTime.new(2020, 1, 2, 3, 4, 5)', wire, json: wire };
+    }
+    default:
+      return;
+  }
+}
+
+function stringSample(value: string): Sample {
+  return {
+    value: rubyString(value),
+    wire: rubyString(value),
+    text: value,
+    json: rubyString(value),
+  };
+}
+
+const formatSamples: Record<string, string> = {
+  date: '2020-01-02',
+  'date-time': '2020-01-02T03:04:05Z',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '123e4567-e89b-42d3-a456-426614174000',
+};
+
+/** Builds a string that satisfies the validation rules where possible */
+function buildStringSample(rules: ValidationRule[], name: string): string {
+  let value = name;
+  for (const rule of rules) {
+    if (rule.id === 'string-enum' && rule.values.length) {
+      return rule.values[0].value;
+    } else if (rule.id === 'string-format') {
+      value = formatSamples[rule.format.value] ?? value;
+    } else if (rule.id === 'string-pattern') {
+      const pattern = new RegExp(rule.pattern.value);
+      value =
+        [value, 'sample', 'abc123', 'a', '0'].find((candidate) =>
+          pattern.test(candidate),
+        ) ?? value;
+    }
+  }
+
+  for (const rule of rules) {
+    if (rule.id === 'string-min-length') {
+      value = value.padEnd(rule.length.value, 'x');
+    } else if (rule.id === 'string-max-length') {
+      value = value.substring(0, rule.length.value);
+    }
+  }
+
+  return value;
+}
+
+/** Builds a number that satisfies the validation rules where possible */
+function buildNumberSample(
+  rules: ValidationRule[],
+  isInteger: boolean,
+): number {
+  const step = isInteger ? 1 : 0.5;
+  let value = isInteger ? 1 : 1.5;
+
+  for (const rule of rules) {
+    if (rule.id === 'number-gte') value = Math.max(value, rule.value.value);
+    if (rule.id === 'number-gt')
+      value = Math.max(value, rule.value.value + step);
+  }
+  for (const rule of rules) {
+    if (rule.id === 'number-lte') value = Math.min(value, rule.value.value);
+    if (rule.id === 'number-lt')
+      value = Math.min(value, rule.value.value - step);
+  }
+  for (const rule of rules) {
+    if (rule.id === 'number-multiple-of' && rule.value.value) {
+      value = Math.ceil(value / rule.value.value) * rule.value.value;
+    }
+  }
+
+  return value;
+}
@@ -2,4 +2,145 @@ import { SorbetOptions } from '@basketry/sorbet/lib/types';
 
 export type SorbetHttpClientOptions = {
   sorbet?: SorbetOptions;
+  sorbetHttpClient?: HttpClientOptions;
+};
+
+export type HttpClientOptions = {
+  /**
+   * The path between the API root and the path of each operation. Use
+   * `{majorVersion}` to insert the major version of the service, or an empty
+   * string to omit the prefix entirely. Clients can override this at runtime
+   * with their `base_path:` constructor parameter. (default: `'/v{majorVersion}'`)
+   */
+  basePath?: string;
+  /**
+   * When defined, generated clients retry failed requests by default using a
+   * retry policy built from these values. Clients can always override (or
+   * disable) the policy with the `retry_policy:` constructor argument.
+   */
+  retry?: RetryOptions;
+  /**
+   * When true, each client method also gets a `<method>_with_response` variant
+   * that returns a `Response` containing the status code and headers along with
+   * the typed body. (default: `false`)
+   */
+  responseEnvelopes?: boolean;
+  /**
+   * When true, an additional `<Interface>AsyncHttpClient` is generated for each
+   * interface. Its methods run requests on a concurrent-ruby executor and
+   * return a `Future`. (default: `false`)
+   */
+  asyncClients?: boolean;
+  /**
+   * When true, an additional `<Interface>FakeClient` is generated for each
+   * interface. It implements the service interface in memory by recording each
+   * call and returning stubbed results, for use in tests. (default: `false`)
+   */
+  fakeClients?: boolean;
+  /**
+   * When true, the generated mappers raise a `MappingError` with the JSON path
+   * and value of the first property that is missing (when required) or cannot
+   * be mapped to its type, rather than returning the unmapped DTO. (default: `false`)
+   */
+  strictMapping?: boolean;
+  /**
+   * When true, client methods check their parameters against the validation
+   * rules in the service definition (lengths, patterns, ranges, etc) and raise
+   * a `ValidationError` listing every violation before sending the request.
+   * (default: `false`)
+   */
+  validateParameters?: boolean;
+  /**
+   * Discriminators of union types keyed by the name of the union in the
+   * service definition. Object members of a union with a discriminator are
+   * matched by the value of the discriminator property rather than by their
+   * required properties.
+   */
+  discriminators?: Record<string, DiscriminatorOptions>;
+  /**
+   * When set, an `each_<method>` iterator is generated for each method that
+   * follows the configured paging conventions. The iterator lazily requests
+   * every page and yields the items of each one.
+   */
+  pagination?: PaginationOptions;
+  /**
+   * When true, each client accepts an optional `instrumenter` that wraps
+   * every call with an event describing the service, interface, method, HTTP
+   * verb and path template of the request. (default: `false`)
+   */
+  instrumentation?: boolean;
+  /**
+   * When true, an RSpec spec is generated for each client that uses WebMock
+   * to check the request sent by each method and the mapping of a sample
+   * response. (default: `false`)
+   */
+  contractSpecs?: boolean;
+  /**
+   * When set, a `<Method>Request` struct is generated for each method with at
+   * least `minParameters` parameters, and each client gets a `send_<method>`
+   * method that accepts it. The keyword method of the service interface
+   * delegates to the new method.
+   */
+  requestStructs?: RequestStructOptions;
+  /**
+   * When true, each method with a return type also gets a `stream_<method>`
+   * variant that yields the raw body of the response to a block in chunks
+   * rather than mapping it. (default: `false`)
+   */
+  streaming?: boolean;
+};
+
+export type RequestStructOptions = {
+  /** The number of parameters at which a method gets a request struct (default: `5`) */
+  minParameters?: number;
+};
+
+export type DiscriminatorOptions = {
+  /** The name of the property that identifies the member of the union */
+  property: string;
+  /**
+   * Maps each discriminator value to the name of a member type. When omitted,
+   * the value of the property is expected to be the name of the member type.
+   */
+  mapping?: Record<string, string>;
+};
+
+export type PaginationOptions = {
+  /**
+   * The name of the array property of the response type that contains the
+   * items of each page. (default: `'data'`)
+   */
+  itemsProperty?: string;
+  /**
+   * The name of the parameter that accepts an opaque cursor. (default: `'cursor'`)
+   */
+  cursorParameter?: string;
+  /**
+   * The name of the property of the response type that contains the cursor of
+   * the next page. When the response type has no such property and
+   * `responseEnvelopes` is enabled, the cursor is read from the
+   * `rel="next"` URL in the `Link` response header. (default: `'nextCursor'`)
+   */
+  cursorProperty?: string;
+  /**
+   * The name of the parameter that accepts a 1-based page number. (default: `'page'`)
+   */
+  pageParameter?: string;
+  /**
+   * The name of the parameter that accepts the number of items to skip. (default: `'offset'`)
+   */
+  offsetParameter?: string;
+};
+
+export type RetryOptions = {
+  /** The total number of attempts, including the first (default: `3`) */
+  maxAttempts?: number;
+  /** The delay in seconds before the first retry (default: `0.5`) */
+  baseDelay?: number;
+  /** The maximum delay in seconds between attempts (default: `30`) */
+  maxDelay?: number;
+  /** Response status codes that are retried (default: `[408, 429, 500, 502, 503, 504]`) */
+  statusCodes?: number[];
+  /** HTTP verbs that are retried (default: `['get', 'head', 'put', 'delete', 'options']`) */
+  verbs?: string[];
 };
@@ -41,3 +41,8 @@ export function* comment(lines: Lines): Iterable<string> {
     yield line.length ? `# ${line}` : '#';
   }
 }
+
+/** Builds a single-quoted Ruby string literal */
+export function rubyString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}